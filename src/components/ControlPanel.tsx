@@ -6,32 +6,62 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
-import { Download, Link, RotateCcw } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileDown, ImageUpscale, Link, RotateCcw } from "lucide-react";
+import { Link as RouterLink } from "react-router-dom";
+import { ViewBookmarks } from "@/components/ViewBookmarks";
+import { ModLayersPanel } from "@/components/ModLayersPanel";
 import { GridConfig } from "@/lib/grid";
 import { SamplingConfig, SamplingMode } from "@/lib/sampling";
 import { FORMULA_PRESETS, validateFormula } from "@/lib/coefficientFormula";
-import { ColorMode } from "@/pages/Index";
+import { ToneMapping } from "@/lib/density";
+import { RootExportFormat } from "@/lib/rootExport";
+import { ViewBookmark } from "@/lib/views";
+import { ModLayersConfig } from "@/lib/modLayers";
+import { Complex, FamilyTransform, MatrixStructure, PositionSets, RootSolver, getMinimumTransformDegree, getTotalPolynomials } from "@/lib/math";
+import { PositionSetOverrides, togglePositionSetEntry } from "@/lib/coefficientSets";
+import { ColorMode, RenderMode } from "@/lib/renderModes";
 
 type TransformTarget = 'all' | 'even' | 'odd' | 'selected';
 
+const SUBSCRIPT_DIGITS = '₀₁₂₃₄₅₆₇₈₉';
+const toSubscript = (n: number): string =>
+  String(n).split('').map((d) => SUBSCRIPT_DIGITS[Number(d)]).join('');
+
 interface ControlPanelProps {
   degree: number;
   onDegreeChange: (value: number) => void;
   coefficientCount: number;
   onCoefficientCountChange: (value: number) => void;
+  coefficients: Complex[];
+  positionSets: PositionSets;
+  positionSetOverrides: PositionSetOverrides;
+  onPositionSetOverridesChange: (overrides: PositionSetOverrides) => void;
   maxRoots: number;
   onMaxRootsChange: (value: number) => void;
   polynomialNeighborRange: number;
   onPolynomialNeighborRangeChange: (value: number) => void;
   isLandscape: boolean;
-  transparency: number;
-  onTransparencyChange: (value: number) => void;
   colorBandWidth: number;
   onColorBandWidthChange: (value: number) => void;
   colorMode: ColorMode;
   onColorModeChange: (value: ColorMode) => void;
-  blendMode: GlobalCompositeOperation;
-  onBlendModeChange: (value: GlobalCompositeOperation) => void;
+  renderMode: RenderMode;
+  onRenderModeChange: (value: RenderMode) => void;
+  matrixStructure: MatrixStructure;
+  onMatrixStructureChange: (value: MatrixStructure) => void;
+  dragonPoint: Complex;
+  toneMapping: ToneMapping;
+  onToneMappingChange: (value: ToneMapping) => void;
+  exposure: number;
+  onExposureChange: (value: number) => void;
   gammaCorrection: number;
   onGammaCorrectionChange: (value: number) => void;
   autoClearCanvas: boolean;
@@ -44,6 +74,10 @@ interface ControlPanelProps {
   onGridConfigChange: (config: GridConfig) => void;
   samplingConfig: SamplingConfig;
   onSamplingConfigChange: (config: SamplingConfig) => void;
+  rootSolver: RootSolver;
+  onRootSolverChange: (value: RootSolver) => void;
+  familyTransform: FamilyTransform;
+  onFamilyTransformChange: (value: FamilyTransform) => void;
   zoom: number;
   reFormula: string;
   imFormula: string;
@@ -61,6 +95,21 @@ interface ControlPanelProps {
   onRandomizeCoefficients: (amount: number) => void;
   onExportPNG: () => void;
   onExportLink: () => void;
+  onExportRoots: (format: RootExportFormat) => void;
+  onOpenHighResExport: () => void;
+  onSaveScene: () => void;
+  onOpenScene: () => void;
+  viewBookmarks: ViewBookmark[];
+  onAddViewBookmark: (name: string) => void;
+  onFlyToViewBookmark: (bookmark: ViewBookmark) => void;
+  onDeleteViewBookmark: (id: string) => void;
+  canGoBackView: boolean;
+  canGoForwardView: boolean;
+  onViewBack: () => void;
+  onViewForward: () => void;
+  modLayers: ModLayersConfig;
+  onModLayersChange: (config: ModLayersConfig) => void;
+  onExportModLayers: () => void;
 }
 
 export const ControlPanel = ({
@@ -68,19 +117,28 @@ export const ControlPanel = ({
   onDegreeChange,
   coefficientCount,
   onCoefficientCountChange,
+  coefficients,
+  positionSets,
+  positionSetOverrides,
+  onPositionSetOverridesChange,
   maxRoots,
   onMaxRootsChange,
   polynomialNeighborRange,
   onPolynomialNeighborRangeChange,
   isLandscape,
-  transparency,
-  onTransparencyChange,
   colorBandWidth,
   onColorBandWidthChange,
   colorMode,
   onColorModeChange,
-  blendMode,
-  onBlendModeChange,
+  renderMode,
+  onRenderModeChange,
+  matrixStructure,
+  onMatrixStructureChange,
+  dragonPoint,
+  toneMapping,
+  onToneMappingChange,
+  exposure,
+  onExposureChange,
   gammaCorrection,
   onGammaCorrectionChange,
   autoClearCanvas,
@@ -93,6 +151,10 @@ export const ControlPanel = ({
   onGridConfigChange,
   samplingConfig,
   onSamplingConfigChange,
+  rootSolver,
+  onRootSolverChange,
+  familyTransform,
+  onFamilyTransformChange,
   zoom,
   reFormula,
   imFormula,
@@ -110,6 +172,21 @@ export const ControlPanel = ({
   onRandomizeCoefficients,
   onExportPNG,
   onExportLink,
+  onExportRoots,
+  onOpenHighResExport,
+  onSaveScene,
+  onOpenScene,
+  viewBookmarks,
+  onAddViewBookmark,
+  onFlyToViewBookmark,
+  onDeleteViewBookmark,
+  canGoBackView,
+  canGoForwardView,
+  onViewBack,
+  onViewForward,
+  modLayers,
+  onModLayersChange,
+  onExportModLayers,
 }: ControlPanelProps) => {
   // Local state for transform sliders (spring back to 0 on release)
   const [scaleSlider, setScaleSlider] = useState(0);
@@ -118,6 +195,14 @@ export const ControlPanel = ({
   const [vOffsetSlider, setVOffsetSlider] = useState(0);
   const [randomizeSlider, setRandomizeSlider] = useState(0);
   const [activeSlider, setActiveSlider] = useState<string | null>(null);
+  // Highest coefficient position: the degree, or the last free entry in Bohemian mode
+  const lastPosition = positionSets.length - 1;
+  const isBohemian = renderMode === 'bohemian';
+  // Power whose coefficient set is being edited (clamped when the degree shrinks)
+  const [editPosition, setEditPosition] = useState(0);
+  const editPower = Math.min(editPosition, lastPosition);
+  const restrictedPowers = Object.keys(positionSetOverrides).map(Number).filter((power) => power <= lastPosition);
+  const isUniformSets = positionSets.every((set) => set.length === coefficientCount);
 
   // Global pointerup listener to reliably reset sliders
   useEffect(() => {
@@ -171,6 +256,7 @@ export const ControlPanel = ({
             <TabsTrigger value="coeffs" className="flex-1 text-xs px-2" onClick={() => handleTabClick("coeffs")}>COEF</TabsTrigger>
             <TabsTrigger value="style" className="flex-1 text-xs px-2" onClick={() => handleTabClick("style")}>VIS</TabsTrigger>
             <TabsTrigger value="grids" className="flex-1 text-xs px-2" onClick={() => handleTabClick("grids")}>GRID</TabsTrigger>
+            <TabsTrigger value="layers" className="flex-1 text-xs px-2" onClick={() => handleTabClick("layers")}>MOD</TabsTrigger>
           </TabsList>
           <Button
             onClick={onExportPNG}
@@ -180,6 +266,15 @@ export const ControlPanel = ({
           >
             <Download className="w-4 h-4" />
           </Button>
+          <Button
+            onClick={onOpenHighResExport}
+            size="icon"
+            variant="outline"
+            className="bg-background/50 backdrop-blur-sm h-10 w-10"
+            title="High-resolution PNG"
+          >
+            <ImageUpscale className="w-4 h-4" />
+          </Button>
           <Button
             onClick={onExportLink}
             size="icon"
@@ -188,12 +283,48 @@ export const ControlPanel = ({
           >
             <Link className="w-4 h-4" />
           </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                size="icon"
+                variant="outline"
+                className="bg-background/50 backdrop-blur-sm h-10 w-10"
+                title="Roots and scenes"
+              >
+                <FileDown className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs">Export roots</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => onExportRoots('csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExportRoots('ndjson')}>JSON Lines</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExportRoots('binary')}>Binary (Float64)</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs">Scene</DropdownMenuLabel>
+              <DropdownMenuItem onClick={onSaveScene}>Save as JSON</DropdownMenuItem>
+              <DropdownMenuItem onClick={onOpenScene}>Open JSON or PNG…</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem asChild>
+                <RouterLink to="/settings">Storage settings…</RouterLink>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <ViewBookmarks
+            bookmarks={viewBookmarks}
+            onAdd={onAddViewBookmark}
+            onFlyTo={onFlyToViewBookmark}
+            onDelete={onDeleteViewBookmark}
+            canGoBack={canGoBackView}
+            canGoForward={canGoForwardView}
+            onBack={onViewBack}
+            onForward={onViewForward}
+          />
         </div>
 
       <TabsContent value="polynomial" className="space-y-4 mt-4">
       <div className="space-y-2">
         <Label htmlFor="degree-slider" className="text-sm font-normal text-foreground">
-          Degree: {degree}
+          {isBohemian ? 'Matrix Size' : 'Degree'}: {degree}
         </Label>
         <Slider
           id="degree-slider"
@@ -220,6 +351,10 @@ export const ControlPanel = ({
           className="w-full"
         />
       </div>
+      <p className="text-xs text-muted-foreground break-all">
+        {getTotalPolynomials(positionSets).toLocaleString()} {isBohemian ? `${degree}×${degree} matrices` : 'polynomials'} (
+        {isUniformSets ? `${coefficientCount}^${lastPosition + 1}` : positionSets.map((set) => set.length).join('·')})
+      </p>
       
 
       <div className="space-y-2">
@@ -286,6 +421,40 @@ export const ControlPanel = ({
         />
       </div>
 
+      <div className="flex items-center gap-3">
+        <Label htmlFor="root-solver-select" className="text-sm font-normal text-foreground whitespace-nowrap">
+          Root Solver
+        </Label>
+        <Select value={rootSolver} onValueChange={(value) => onRootSolverChange(value as RootSolver)}>
+          <SelectTrigger id="root-solver-select" className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="durand_kerner">Durand–Kerner</SelectItem>
+            <SelectItem value="aberth">Aberth–Ehrlich</SelectItem>
+            <SelectItem value="companion">Companion Matrix (QR)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Label htmlFor="family-transform-select" className="text-sm font-normal text-foreground whitespace-nowrap">
+          Family
+        </Label>
+        <Select value={familyTransform} onValueChange={(value) => onFamilyTransformChange(value as FamilyTransform)}>
+          <SelectTrigger id="family-transform-select" className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">P(z)</SelectItem>
+            <SelectItem value="derivative" disabled={degree < getMinimumTransformDegree('derivative')}>P′(z)</SelectItem>
+            <SelectItem value="even_part" disabled={degree < getMinimumTransformDegree('even_part')}>P(z) + P(−z)</SelectItem>
+            <SelectItem value="reciprocal">zⁿ·P(1/z)</SelectItem>
+            <SelectItem value="conjugate_product">P(z)·P̄(z)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
       {/* Sampling Mode Section - only show when maxRoots is finite */}
       {maxRoots !== Infinity && (
         <div className="space-y-3 pt-3 border-t border-border/50">
@@ -301,16 +470,41 @@ export const ControlPanel = ({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="uniform">Uniform (default)</SelectItem>
+                <SelectItem value="progressive">Progressive</SelectItem>
                 <SelectItem value="first">First N</SelectItem>
                 <SelectItem value="random">Random</SelectItem>
                 <SelectItem value="by_a0">By a₀ (free coeff)</SelectItem>
                 <SelectItem value="by_an">By aₙ (leading coeff)</SelectItem>
+                <SelectItem value="by_position">By position</SelectItem>
+                <SelectItem value="gray">Gray code</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-        {/* Filter coefficient index - only show for by_a0 and by_an modes */}
-        {(samplingConfig.mode === 'by_a0' || samplingConfig.mode === 'by_an') && (
+        {/* Filtered power - only show for by_position mode */}
+        {samplingConfig.mode === 'by_position' && (
+          <div className="space-y-2">
+            <Label htmlFor="filter-position" className="text-xs font-normal text-muted-foreground">
+              Filter position: a{toSubscript(Math.min(samplingConfig.filterPosition, lastPosition))}
+            </Label>
+            <Slider
+              id="filter-position"
+              min={0}
+              max={lastPosition}
+              step={1}
+              value={[Math.min(samplingConfig.filterPosition, lastPosition)]}
+              onValueChange={(value) => onSamplingConfigChange({ ...samplingConfig, filterPosition: value[0] })}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>a₀</span>
+              <span>a{toSubscript(lastPosition)}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Filter coefficient index - only show for filter modes */}
+        {(samplingConfig.mode === 'by_a0' || samplingConfig.mode === 'by_an' || samplingConfig.mode === 'by_position') && (
           <div className="space-y-2">
             <Label htmlFor="filter-coeff" className="text-xs font-normal text-muted-foreground">
               Filter by coefficient #{samplingConfig.filterCoeffIndex + 1}
@@ -331,8 +525,8 @@ export const ControlPanel = ({
           </div>
         )}
 
-        {/* Offset slider - only show for uniform and first modes when maxRoots is finite */}
-        {(samplingConfig.mode === 'uniform' || samplingConfig.mode === 'first') && maxRoots !== Infinity && (
+        {/* Offset slider - only show for uniform, first and gray modes when maxRoots is finite */}
+        {(samplingConfig.mode === 'uniform' || samplingConfig.mode === 'first' || samplingConfig.mode === 'gray') && maxRoots !== Infinity && (
           <div className="space-y-2">
             <Label htmlFor="sampling-offset" className="text-xs font-normal text-muted-foreground">
               Offset: {(samplingConfig.offset * 100).toFixed(0)}%
@@ -357,8 +551,11 @@ export const ControlPanel = ({
           {samplingConfig.mode === 'uniform' && 'Evenly distributed polynomial indices'}
           {samplingConfig.mode === 'first' && 'First N polynomials without skipping'}
           {samplingConfig.mode === 'random' && 'Pseudo-random step sizes for varied sampling'}
-          {samplingConfig.mode === 'by_a0' && 'Only polynomials with specific free coefficient (index % coeffsLength)'}
-          {samplingConfig.mode === 'by_an' && 'Only polynomials with specific leading coefficient'}
+          {samplingConfig.mode === 'by_a0' && 'Only polynomials with specific free coefficient (index % coeffsLength), in progressive order'}
+          {samplingConfig.mode === 'by_an' && 'Only polynomials with specific leading coefficient, in progressive order'}
+          {samplingConfig.mode === 'by_position' && 'Only polynomials with a specific coefficient at the chosen power, in progressive order'}
+          {samplingConfig.mode === 'gray' && 'Gray-code order: neighbours differ in one coefficient'}
+          {samplingConfig.mode === 'progressive' && 'Radical-inverse order: a partial render is already an even sample of all polynomials'}
         </p>
         </div>
       )}
@@ -605,33 +802,141 @@ export const ControlPanel = ({
             </div>
           </div>
         </div>
+
+        {/* Per-position coefficient sets - restrict which coefficients each power may use */}
+        <div className="space-y-3 pt-3 border-t border-border/50">
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-sm font-medium text-foreground whitespace-nowrap">
+              Coefficient Sets
+            </Label>
+            <Select value={String(editPower)} onValueChange={(v) => setEditPosition(parseInt(v, 10))}>
+              <SelectTrigger className="h-7 text-xs w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {positionSets.map((set, power) => (
+                  <SelectItem key={power} value={String(power)}>
+                    a{toSubscript(power)}{set.length < coefficientCount ? ` (${set.length})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {coefficients.map((c, i) => (
+              <Button
+                key={i}
+                size="sm"
+                variant={positionSets[editPower]?.includes(i) ? 'secondary' : 'outline'}
+                className="h-7 px-2 text-xs font-mono"
+                title={`${c.re.toFixed(3)} ${c.im >= 0 ? '+' : '-'} ${Math.abs(c.im).toFixed(3)}i`}
+                onClick={() => onPositionSetOverridesChange(
+                  togglePositionSetEntry(positionSetOverrides, editPower, i, coefficientCount)
+                )}
+              >
+                #{i}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={() => {
+                const { [editPower]: _removed, ...rest } = positionSetOverrides;
+                onPositionSetOverridesChange(rest);
+              }}
+              disabled={positionSetOverrides[editPower] === undefined}
+              size="sm"
+              variant="secondary"
+              className="flex-1 h-8 text-xs"
+            >
+              All for a{toSubscript(editPower)}
+            </Button>
+            <Button
+              onClick={() => onPositionSetOverridesChange({})}
+              disabled={restrictedPowers.length === 0}
+              size="sm"
+              variant="secondary"
+              className="flex-1 h-8 text-xs"
+            >
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Reset all
+            </Button>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {restrictedPowers.length === 0
+              ? 'Every power uses all coefficients'
+              : restrictedPowers
+                  .map((power) => `a${toSubscript(power)} ∈ {${positionSets[power].map((i) => `#${i}`).join(', ')}}`)
+                  .join(', ')}
+          </p>
+        </div>
       </TabsContent>
 
       <TabsContent value="style" className="space-y-4 mt-4">
+      <div className="flex items-center gap-3">
+        <Label htmlFor="render-mode-select" className="text-sm font-normal text-foreground whitespace-nowrap">
+          Render Mode
+        </Label>
+        <Select value={renderMode} onValueChange={(value) => onRenderModeChange(value as RenderMode)}>
+          <SelectTrigger id="render-mode-select" className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="roots">Roots</SelectItem>
+            <SelectItem value="newton_basin">Newton Basins</SelectItem>
+            <SelectItem value="dragon">Dragon Set P(z)</SelectItem>
+            <SelectItem value="bohemian">Bohemian Eigenvalues</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {isBohemian && (
+        <div className="flex items-center gap-3">
+          <Label htmlFor="matrix-structure-select" className="text-sm font-normal text-foreground whitespace-nowrap">
+            Matrix
+          </Label>
+          <Select value={matrixStructure} onValueChange={(value) => onMatrixStructureChange(value as MatrixStructure)}>
+            <SelectTrigger id="matrix-structure-select" className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="full">Full</SelectItem>
+              <SelectItem value="tridiagonal">Tridiagonal</SelectItem>
+              <SelectItem value="toeplitz">Toeplitz</SelectItem>
+              <SelectItem value="upper_hessenberg">Upper Hessenberg</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {isBohemian && (
+        <p className="text-xs text-muted-foreground">
+          Eigenvalues of matrices with entries from the coefficients; a{toSubscript(0)}…a{toSubscript(lastPosition)} are the free entries
+        </p>
+      )}
+      {renderMode === 'newton_basin' && (
+        <p className="text-xs text-muted-foreground">
+          Basins of the hovered polynomial; click the strip to pin one
+        </p>
+      )}
+      {renderMode === 'dragon' && (
+        <p className="text-xs text-muted-foreground">
+          Values P(z) at z = {dragonPoint.re.toFixed(3)} {dragonPoint.im >= 0 ? '+' : '-'} {Math.abs(dragonPoint.im).toFixed(3)}i; click or drag on the canvas to move z
+        </p>
+      )}
+
       <div className="space-y-2">
-        <Label htmlFor="transparency-slider" className="text-sm font-normal text-foreground">
-          Transparency: {transparency < 0.01 ? transparency.toFixed(3) : transparency.toFixed(2)}
+        <Label htmlFor="exposure-slider" className="text-sm font-normal text-foreground">
+          Exposure: {exposure > 0 ? '+' : ''}{exposure.toFixed(2)} EV
         </Label>
         <Slider
-          id="transparency-slider"
-          min={0}
-          max={100}
-          step={1}
-          value={[
-            transparency <= 0.125
-              ? (Math.log(transparency / 0.001) / Math.log(125)) * 50
-              : 50 + (Math.log(transparency / 0.125) / Math.log(8)) * 50
-          ]}
-          onValueChange={(value) => {
-            // Two-segment logarithmic scale: 0.001→0.125 at 0→50, 0.125→1.0 at 50→100
-            let actualValue: number;
-            if (value[0] <= 50) {
-              actualValue = 0.001 * Math.pow(125, value[0] / 50);
-            } else {
-              actualValue = 0.125 * Math.pow(8, (value[0] - 50) / 50);
-            }
-            onTransparencyChange(Math.max(0.001, Math.min(1, actualValue)));
-          }}
+          id="exposure-slider"
+          min={-8}
+          max={8}
+          step={0.05}
+          value={[exposure]}
+          onValueChange={(value) => onExposureChange(value[0])}
           className="w-full"
         />
       </div>
@@ -667,22 +972,18 @@ export const ControlPanel = ({
       </div>
 
       <div className="flex items-center gap-3">
-        <Label htmlFor="blend-mode-select" className="text-sm font-normal text-foreground whitespace-nowrap">
-          Blend Mode
+        <Label htmlFor="tone-mapping-select" className="text-sm font-normal text-foreground whitespace-nowrap">
+          Tone Mapping
         </Label>
-        <Select value={blendMode} onValueChange={(value) => onBlendModeChange(value as GlobalCompositeOperation)}>
-          <SelectTrigger id="blend-mode-select" className="flex-1">
+        <Select value={toneMapping} onValueChange={(value) => onToneMappingChange(value as ToneMapping)}>
+          <SelectTrigger id="tone-mapping-select" className="flex-1">
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="source-over">Source Over</SelectItem>
-            <SelectItem value="multiply">Multiply</SelectItem>
-            <SelectItem value="screen">Screen</SelectItem>
-            <SelectItem value="overlay">Overlay</SelectItem>
-            <SelectItem value="color-dodge">Color Dodge</SelectItem>
-            <SelectItem value="hue">Hue</SelectItem>
-            <SelectItem value="difference">Difference</SelectItem>
-            <SelectItem value="xor">XOR</SelectItem>
+            <SelectItem value="linear">Linear</SelectItem>
+            <SelectItem value="log">Logarithmic</SelectItem>
+            <SelectItem value="sqrt">Square Root</SelectItem>
+            <SelectItem value="equalize">Histogram Equalized</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -903,6 +1204,15 @@ export const ControlPanel = ({
           )}
         </div>
       </TabsContent>
+
+      <TabsContent value="layers" className="mt-4">
+        <ModLayersPanel
+          modLayers={modLayers}
+          onModLayersChange={onModLayersChange}
+          onExport={onExportModLayers}
+          renderMode={renderMode}
+        />
+      </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight } from "lucide-react";
+import { EXPORT_PRESETS, validateExportSize } from "@/lib/tiledExport";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Progress (0..100) of the running export, or null when idle
+  progress: number | null;
+  // Why the current view cannot be exported, if it cannot
+  unavailableReason: string | null;
+  onExport: (width: number, height: number) => void;
+  onCancel: () => void;
+}
+
+const CUSTOM_PRESET = 'custom';
+
+export const ExportDialog = ({ open, onOpenChange, progress, unavailableReason, onExport, onCancel }: ExportDialogProps) => {
+  const [preset, setPreset] = useState('1');
+  const [width, setWidth] = useState(EXPORT_PRESETS[1].width);
+  const [height, setHeight] = useState(EXPORT_PRESETS[1].height);
+
+  const isExporting = progress !== null;
+  const sizeError = validateExportSize(width, height);
+
+  const handlePresetChange = (value: string) => {
+    setPreset(value);
+    if (value === CUSTOM_PRESET) return;
+    const { width: presetWidth, height: presetHeight } = EXPORT_PRESETS[Number(value)];
+    // Keep the chosen orientation
+    const portrait = height > width;
+    setWidth(portrait ? Math.min(presetWidth, presetHeight) : Math.max(presetWidth, presetHeight));
+    setHeight(portrait ? Math.max(presetWidth, presetHeight) : Math.min(presetWidth, presetHeight));
+  };
+
+  const handleSizeChange = (setter: (value: number) => void, value: string) => {
+    setPreset(CUSTOM_PRESET);
+    setter(Math.floor(Number(value)));
+  };
+
+  const handleSwap = () => {
+    setWidth(height);
+    setHeight(width);
+  };
+
+  // Closing the dialog cancels a running export
+  const handleOpenChange = (value: boolean) => {
+    if (!value && isExporting) onCancel();
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>High-resolution PNG</DialogTitle>
+          <DialogDescription>
+            Re-renders the current view at the chosen size, tile by tile. Grids and coefficient rings keep their on-screen proportions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Label htmlFor="export-preset" className="text-sm font-normal text-foreground w-14">Size</Label>
+            <Select value={preset} onValueChange={handlePresetChange} disabled={isExporting}>
+              <SelectTrigger id="export-preset" className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_PRESETS.map((p, i) => (
+                  <SelectItem key={p.label} value={String(i)}>{p.label}</SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_PRESET}>Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              value={width}
+              onChange={(e) => handleSizeChange(setWidth, e.target.value)}
+              className="h-8 font-mono text-xs"
+              aria-label="Width in pixels"
+              disabled={isExporting}
+            />
+            <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={handleSwap} disabled={isExporting} title="Swap orientation">
+              <ArrowLeftRight className="w-4 h-4" />
+            </Button>
+            <Input
+              type="number"
+              min={1}
+              value={height}
+              onChange={(e) => handleSizeChange(setHeight, e.target.value)}
+              className="h-8 font-mono text-xs"
+              aria-label="Height in pixels"
+              disabled={isExporting}
+            />
+          </div>
+
+          <p className={`text-xs ${sizeError || unavailableReason ? 'text-red-500' : 'text-muted-foreground'}`}>
+            {unavailableReason ?? sizeError ?? `${((width * height) / 1e6).toFixed(1)} megapixels`}
+          </p>
+
+          {progress !== null && (
+            <div className="space-y-1">
+              <Progress value={progress} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {progress < 100 ? `Rendering… ${progress.toFixed(0)}%` : 'Encoding PNG…'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isExporting ? (
+            <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          ) : (
+            <Button onClick={() => onExport(width, height)} disabled={sizeError !== null || unavailableReason !== null}>
+              Export
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
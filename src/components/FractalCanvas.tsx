@@ -1,28 +1,100 @@
-import { useEffect, useRef, useState, forwardRef, useImperativeHandle } from "react";
+import { useEffect, useMemo, useRef, useState, forwardRef, useImperativeHandle } from "react";
 import { Loader2, AlertCircle } from "lucide-react";
 import { toast } from "@/components/ui/sonner";
 import {
   Complex,
   generatePolynomialByIndex,
   getTotalPolynomials,
-  findRootsDurandKerner,
+  findRoots,
+  findRootsWithWarmStart,
+  evaluatePolynomial,
+  BohemianConfig,
+  getBohemianEigenvalues,
+  getPaletteIndicesByIndex,
+  FamilyTransform,
+  MatrixStructure,
+  PositionSets,
+  RootSolver,
+  bigIntCeilDiv,
+  getPositionRadices,
+  applyFamilyTransform,
+  getTransformedDegree,
+  scaleBigInt,
+  ddFromNumber,
+  ddSubtract,
+  ddToNumber,
+  polishRootsDD,
 } from "@/lib/math";
 import { GridConfig, snapToGrid } from "@/lib/grid";
-import { SamplingConfig, getPolynomialIndex } from "@/lib/sampling";
-import { ColorMode } from "@/pages/Index";
+import { SamplingConfig, getMixedRadixGrayIndex, getPolynomialIndex, getRefinementPassLimit, getSkipInterval } from "@/lib/sampling";
+import { RENDER_PROGRESS_SAVE_INTERVAL, loadRenderProgress, saveRenderProgress } from "@/lib/renderProgress";
+import {
+  DensityBuffer,
+  ToneMapping,
+  ToneMappingSettings,
+  createDensityBuffer,
+  clearDensityBuffer,
+  accumulateHit,
+  hueToRgb,
+  renderDensityToImageData,
+} from "@/lib/density";
+import { PrecisionWindow, RootBatchRequest, RootBatchResult, ROOT_RECORD_HEADER, getRootRecordStride } from "@/lib/rootBatch";
+import { RootWorkerPool, createRootWorkerPool } from "@/lib/rootWorkerPool";
+import { evictRootCache, formatBytes, hashRootCacheKey, loadRootCacheSettings, openRootCacheEntry, readRootCacheBatch, writeRootCacheBatch } from "@/lib/rootCache";
+import { RootStore, createRootStore, getStoredBatch, isRootStoreComplete, prepareRootStore, storeRootBatch, trackPendingBatch } from "@/lib/rootStore";
+import {
+  RootHit,
+  RootSpatialIndex,
+  createRootSpatialIndex,
+  clearRootSpatialIndex,
+  insertRoot,
+  findNearestRoot,
+  moveRootSpatialIndexOrigin,
+} from "@/lib/rootSpatialIndex";
+import { RootInspector } from "@/components/RootInspector";
+import { RootExportFormat, runRootExport } from "@/lib/rootExport";
+import { ExportTile, renderTiledDensityImage } from "@/lib/tiledExport";
+import { FLY_TO_DURATION, View, interpolateView } from "@/lib/views";
+import { MINIMAP_SIZE, Minimap } from "@/components/Minimap";
+import { RenderControls } from "@/components/RenderControls";
+import {
+  ModLayerBuffer,
+  ModLayersConfig,
+  accumulateLayerHit,
+  clearModLayerBuffers,
+  createModLayerBuffers,
+  isModLayerVisible,
+  renderModLayersToImageData,
+} from "@/lib/modLayers";
+import {
+  BASIN_COARSE_BLOCK_SIZE,
+  BASIN_MAX_ITERATIONS,
+  getBasinTiles,
+  renderBasinTile,
+} from "@/lib/newtonBasin";
+import { ColorMode, RenderMode } from "@/lib/renderModes";
 
 interface FractalCanvasProps {
   degree: number;
   coefficients: Complex[];
+  // Palette indices available at each power (see coefficientSets)
+  positionSets: PositionSets;
   onCoefficientsChange: (coefficients: Complex[]) => void;
+  // Called once when a coefficient drag begins (before the first onCoefficientsChange)
+  onCoefficientDragStart?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  // Step back and forward through the view history
+  onViewBack?: () => void;
+  onViewForward?: () => void;
   onCoefficientSelect?: (index: number) => void;
   onRenderComplete?: () => void;
   maxRoots: number;
   maxIterations: number;
-  transparency: number;
   colorBandWidth: number;
   colorMode: ColorMode;
-  blendMode: GlobalCompositeOperation;
+  toneMapping: ToneMapping;
+  exposure: number;
   gammaCorrection: number;
   autoClearCanvas: boolean;
   autoRestart: boolean;
@@ -32,6 +104,16 @@ interface FractalCanvasProps {
   polynomialNeighborRange: number;
   gridConfig: GridConfig;
   samplingConfig: SamplingConfig;
+  rootSolver: RootSolver;
+  familyTransform: FamilyTransform;
+  renderMode: RenderMode;
+  // Structure of the Bohemian matrices (degree is the matrix size)
+  matrixStructure: MatrixStructure;
+  // z of the dragon set {P(z)}; placed by clicking and dragged like a coefficient
+  dragonPoint: Complex;
+  onDragonPointChange: (point: Complex) => void;
+  // Split the roots into layers by polynomial index modulo a number
+  modLayers: ModLayersConfig;
   onOffsetChange: (x: number, y: number) => void;
   onZoomChange: (zoom: number) => void;
   onResetView: () => void;
@@ -43,6 +125,24 @@ export interface FractalCanvasRef {
   exportToCanvas: () => HTMLCanvasElement | null;
   clearCanvas: () => void;
   restartRender: () => void;
+  // Recompute the current render's roots and save them; resolves with the row count or null if cancelled
+  exportRoots: (
+    format: RootExportFormat,
+    filename: string,
+    onProgress?: (progress: number, rows: number) => void,
+    signal?: AbortSignal
+  ) => Promise<number | null>;
+  // Re-render the current view at the given size, tile by tile; resolves with the image or null if cancelled
+  exportHighRes: (
+    width: number,
+    height: number,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ) => Promise<HTMLCanvasElement | null>;
+  // Animate pan and zoom to the view, previewing with the interactive snapshot
+  flyTo: (view: View, duration?: number) => void;
+  // One image per modulo-class layer with roots, muted or not (empty when layers are off)
+  exportModLayers: () => { residue: number; canvas: HTMLCanvasElement }[];
 }
 
 interface ConvergenceStats {
@@ -50,33 +150,48 @@ interface ConvergenceStats {
   convergedRoots: number;
   convergenceRate: number;
   avgIterations: number;
+  // Polynomials solved from the previous polynomial's roots instead of a circle
+  warmStartedPolynomials: number;
 }
 
-// Calculate adaptive max iterations based on polynomial degree
-const getAdaptiveMaxIterations = (degree: number): number => {
-  return Math.min(200, Math.max(40, degree * 20));
+// Points plotted per polynomial: its roots, the single value P(z) in dragon mode,
+// or one eigenvalue per matrix dimension in Bohemian mode
+const getPointsPerPolynomial = (renderMode: RenderMode, familyTransform: FamilyTransform, degree: number): number => {
+  if (renderMode === 'dragon') return 1;
+  if (renderMode === 'bohemian') return degree;
+  return getTransformedDegree(familyTransform, degree);
 };
 
-// Apply gamma correction to alpha channel only (negative = more opaque, positive = more transparent)
-const applyGammaCorrection = (ctx: CanvasRenderingContext2D, width: number, height: number, gammaCorrection: number) => {
-  if (gammaCorrection === 0) return; // No correction needed
+// Sampling and batching parameters of one render (see getBatchPlan)
+interface BatchPlan {
+  totalPolynomials: bigint;
+  rootsPerPolynomial: number;
+  theoreticalTotalRoots: bigint;
+  adaptiveMaxIterations: number;
+  skipInterval: bigint;
+  polynomialsToRender: bigint;
+  framesToRender: number;
+  evaluationPoint: Complex | null;
+  bohemian: BohemianConfig | null;
+  precision: PrecisionWindow | null;
+}
 
-  const gamma = Math.pow(10, -gammaCorrection);
-  const imageData = ctx.getImageData(0, 0, width, height);
-  const data = imageData.data;
+// Hue of one root, from the polynomial index, its coefficients (leading-coefficient mode only),
+// the root number and the polynomial's position within its batch
+type HueCalculator = (polynomialIndex: number, poly: Complex[] | null, rootIndex: number, processedInThisFrame: number) => number;
 
-  // Build lookup table for performance (256 values)
-  const lut = new Uint8ClampedArray(256);
-  for (let i = 0; i < 256; i++) {
-    lut[i] = Math.pow(i / 255, gamma) * 255;
-  }
+// Zoom from which roots around the view are polished in double-double and drawn
+// relative to the view center (float64 stops resolving pixels near |z| = 1 at ~1e10)
+const EXTENDED_PRECISION_ZOOM = 1e9;
+// How far float64 roots may be off before polishing (added to the polished radius)
+const EXTENDED_PRECISION_MARGIN = 1e-8;
 
-  // Apply gamma to alpha channel only (skip RGB)
-  for (let i = 0; i < data.length; i += 4) {
-    data[i + 3] = lut[data[i + 3]]; // Alpha
-  }
+// Most stored roots for which gestures redraw every frame exactly instead of scaling a snapshot
+const EXACT_REDRAW_MAX_ROOTS = 500_000;
 
-  ctx.putImageData(imageData, 0, 0);
+// Calculate adaptive max iterations based on polynomial degree
+const getAdaptiveMaxIterations = (degree: number): number => {
+  return Math.min(200, Math.max(40, degree * 20));
 };
 
 // Draw grid overlays (rectangular, circles, rays)
@@ -168,30 +283,39 @@ const drawGrids = (
   }
 };
 
-export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({ degree, coefficients, onCoefficientsChange, onCoefficientSelect, onRenderComplete, maxRoots, maxIterations, transparency, colorBandWidth, colorMode, blendMode, gammaCorrection, autoClearCanvas, autoRestart, offsetX, offsetY, zoom, polynomialNeighborRange, gridConfig, samplingConfig, onOffsetChange, onZoomChange, onResetView, onConvergenceStats }, ref) => {
+export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({ degree, coefficients, positionSets, onCoefficientsChange, onCoefficientDragStart, onUndo, onRedo, onViewBack, onViewForward, onCoefficientSelect, onRenderComplete, maxRoots, maxIterations, colorBandWidth, colorMode, toneMapping, exposure, gammaCorrection, autoClearCanvas, autoRestart, offsetX, offsetY, zoom, polynomialNeighborRange, gridConfig, samplingConfig, rootSolver, familyTransform, renderMode, matrixStructure, dragonPoint, onDragonPointChange, modLayers, onOffsetChange, onZoomChange, onResetView, onConvergenceStats }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const offscreenCanvasRef = useRef<HTMLCanvasElement | null>(null);
-  const gammaCorrectionRef = useRef(gammaCorrection);
+  const densityBufferRef = useRef<DensityBuffer | null>(null);
+  const toneMappingRef = useRef<ToneMappingSettings>({ mode: toneMapping, exposure, gammaCorrection });
 
   // Refs for parameters that should update during live rendering when autoClearCanvas is false
   const degreeRef = useRef(degree);
+  const renderModeRef = useRef(renderMode);
+  renderModeRef.current = renderMode;
+  const dragonPointRef = useRef(dragonPoint);
+  dragonPointRef.current = dragonPoint;
   const coefficientsRef = useRef(coefficients);
-  const transparencyRef = useRef(transparency);
   const colorBandWidthRef = useRef(colorBandWidth);
   const colorModeRef = useRef(colorMode);
-  const blendModeRef = useRef(blendMode);
 
   const [isRendering, setIsRendering] = useState(false);
   const [rootCount, setRootCount] = useState(0);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [isDraggingDragonPoint, setIsDraggingDragonPoint] = useState(false);
+  // Root opened in the inspector by clicking a dot, and whether its polynomial is highlighted
+  const [inspectedRoot, setInspectedRoot] = useState<RootHit | null>(null);
+  const [highlightInspected, setHighlightInspected] = useState(true);
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const [mousePos, setMousePos] = useState<{ x: number; y: number } | null>(null);
   const [canvasSize, setCanvasSize] = useState({ width: 1200, height: 1200 });
   const [isMobile, setIsMobile] = useState(false);
-  const [hoveredPolynomialIndex, setHoveredPolynomialIndex] = useState<number | null>(null);
+  const [hoveredPolynomialIndex, setHoveredPolynomialIndex] = useState<bigint | null>(null);
+  // Polynomial pinned by clicking the strip (used by the Newton-basin mode when nothing is hovered)
+  const [selectedPolynomialIndex, setSelectedPolynomialIndex] = useState<bigint | null>(null);
 
   // Pan gesture state
   const [isPanning, setIsPanning] = useState(false);
@@ -205,13 +329,59 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
   const snapshotCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const snapshotParamsRef = useRef<{ offsetX: number; offsetY: number; zoom: number } | null>(null);
   const [isInteractiveTransform, setIsInteractiveTransform] = useState(false);
+  // Animation frame of a running flyTo
+  const flightRef = useRef<number | null>(null);
 
   // Batch rendering state
   const [renderProgress, setRenderProgress] = useState(0);
   const [currentRenderFrame, setCurrentRenderFrame] = useState(0);
   const [totalFramesToRender, setTotalFramesToRender] = useState(0); // Used for info only, not for render control
-  const [theoreticalMaxRoots, setTheoreticalMaxRoots] = useState(0); // Used for progress display
+  const [theoreticalMaxRoots, setTheoreticalMaxRoots] = useState(0n); // Used for progress display
   const renderingRef = useRef<{ id: number; animationId?: number }>({ id: 0 });
+  const exportIdRef = useRef(0);
+  // Recently drawn roots, for resolving clicks to polynomials
+  const rootIndexRef = useRef<RootSpatialIndex | null>(null);
+  const workerPoolRef = useRef<RootWorkerPool | null>(null);
+
+  // Minimap: the whole viewport at low resolution, accumulated from the batches of the
+  // main render and kept while only the view changes (see getMinimapKey)
+  const minimapPassRef = useRef<{ key: string; buffer: DensityBuffer; drawnBatches: number } | null>(null);
+  const [minimapImage, setMinimapImage] = useState<ImageData | null>(null);
+
+  // Solved batches of the current points, redrawn when only the view changes
+  const rootStoreRef = useRef<RootStore>(createRootStore());
+
+  // Hit counts per residue class while modulo-class layers are on
+  const modLayersRef = useRef(modLayers);
+  const modLayerBuffersRef = useRef<ModLayerBuffer[] | null>(null);
+
+  // Pause and refinement of the main render
+  const pausedRef = useRef(false);
+  const [isPaused, setIsPaused] = useState(false);
+  // Continues a paused render (its frame callback)
+  const resumeRenderRef = useRef<(() => void) | null>(null);
+  // Refinement passes drawn on top of the first pass, for the points they were made for
+  const refinementRef = useRef<{ key: string; passes: number }>({ key: '', passes: 0 });
+  const [refinement, setRefinement] = useState({ passes: 0, limit: 0 });
+
+  // Shift-drag zoom rectangle (canvas pixels)
+  const [zoomRect, setZoomRect] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+
+  // Lazily allocate the spatial index of drawn roots
+  const getRootSpatialIndex = (): RootSpatialIndex => {
+    if (!rootIndexRef.current) {
+      rootIndexRef.current = createRootSpatialIndex();
+    }
+    return rootIndexRef.current;
+  };
+
+  // Lazily create the worker pool on first render
+  const getWorkerPool = (): RootWorkerPool => {
+    if (!workerPoolRef.current) {
+      workerPoolRef.current = createRootWorkerPool();
+    }
+    return workerPoolRef.current;
+  };
 
   // Overlay rendering state (async)
   const overlayRenderingRef = useRef<{ id: number; animationId?: number }>({ id: 0 });
@@ -220,32 +390,45 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     framesToRender: number;
     degree: number;
     coefficients: Complex[];
-    transparency: number;
+    positionSetsKey: string;
     colorBandWidth: number;
     colorMode: ColorMode;
-    blendMode: GlobalCompositeOperation;
     canvasSize: { width: number; height: number };
     offsetX: number;
     offsetY: number;
     zoom: number;
     samplingMode: string;
     samplingFilterIndex: number;
+    samplingFilterPosition: number;
     samplingOffset: number;
+    rootSolver: RootSolver;
+    familyTransform: FamilyTransform;
+    renderMode: RenderMode;
+    matrixStructure: MatrixStructure;
+    dragonPoint: Complex;
+    // Modulus of the layers, 0 when they are off
+    modLayersModulus: number;
   }>({
     framesToRender: 0,
     degree: 0,
     coefficients: [],
-    transparency: 0,
+    positionSetsKey: '',
     colorBandWidth: 0,
     colorMode: 'by_index',
-    blendMode: 'source-over',
     canvasSize: { width: 0, height: 0 },
     offsetX: 0,
     offsetY: 0,
     zoom: 1,
     samplingMode: 'uniform',
     samplingFilterIndex: 0,
-    samplingOffset: 0
+    samplingFilterPosition: 0,
+    samplingOffset: 0,
+    rootSolver: 'durand_kerner',
+    familyTransform: 'none',
+    renderMode: 'roots',
+    matrixStructure: 'full',
+    dragonPoint: { re: 0, im: 0 },
+    modLayersModulus: 0
   });
   // Dynamic batch size based on polynomial complexity
   // Root finding is O(degree²) - degree has quadratic impact on cost
@@ -272,6 +455,48 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
   const VIEWPORT_SIZE = 6; // Shows from -3 to 3 on both axes
 
   // Expose export method via ref
+  // Grids and coefficient rings of an exported image, in screen-sized units: a high-resolution
+  // export scales the context so they keep their on-screen proportions
+  const drawExportOverlay = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    // Calculate viewport and coordinate transforms
+    const baseScale = Math.min(width / VIEWPORT_SIZE, height / VIEWPORT_SIZE);
+    const scale = baseScale * zoom;
+    const toCanvasX = (re: number) => width / 2 + (re - offsetX) * scale;
+    const toCanvasY = (im: number) => height / 2 - (im - offsetY) * scale;
+
+    const viewportWidth = VIEWPORT_SIZE / zoom;
+    const viewportHeight = VIEWPORT_SIZE / zoom;
+    const minRe = offsetX - viewportWidth / 2;
+    const maxRe = offsetX + viewportWidth / 2;
+    const minIm = offsetY - viewportHeight / 2;
+    const maxIm = offsetY + viewportHeight / 2;
+
+    // Draw grids
+    drawGrids(ctx, gridConfig, minRe, maxRe, minIm, maxIm, scale, toCanvasX, toCanvasY, width, height);
+
+    // Draw coefficient dots as double rings (black + white)
+    const baseRadius = isMobile ? Math.min(width, height) * 0.025 : 8;
+
+    coefficients.forEach((coeff) => {
+      const x = toCanvasX(coeff.re);
+      const y = toCanvasY(coeff.im);
+
+      // Draw black ring (outer)
+      ctx.strokeStyle = 'black';
+      ctx.lineWidth = 5;
+      ctx.beginPath();
+      ctx.arc(x, y, baseRadius, 0, 2 * Math.PI);
+      ctx.stroke();
+
+      // Draw white ring (inner)
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(x, y, baseRadius, 0, 2 * Math.PI);
+      ctx.stroke();
+    });
+  };
+
   useImperativeHandle(ref, () => ({
     exportToCanvas: () => {
       const offscreenCanvas = offscreenCanvasRef.current;
@@ -289,71 +514,15 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       exportCtx.fillStyle = "#0a0a14";
       exportCtx.fillRect(0, 0, exportCanvas.width, exportCanvas.height);
 
-      // Draw accumulated roots from offscreen canvas with gamma correction
-      const currentGamma = gammaCorrectionRef.current;
-      if (currentGamma !== 0) {
-        // Apply gamma correction before drawing
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = offscreenCanvas.width;
-        tempCanvas.height = offscreenCanvas.height;
-        const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
-        if (tempCtx) {
-          tempCtx.drawImage(offscreenCanvas, 0, 0);
-          applyGammaCorrection(tempCtx, tempCanvas.width, tempCanvas.height, currentGamma);
-          exportCtx.drawImage(tempCanvas, 0, 0);
-        }
-      } else {
-        exportCtx.drawImage(offscreenCanvas, 0, 0);
-      }
+      // Draw tone-mapped density image from offscreen canvas
+      exportCtx.drawImage(offscreenCanvas, 0, 0);
 
-      // Calculate viewport and coordinate transforms
-      const baseScale = Math.min(canvas.width / VIEWPORT_SIZE, canvas.height / VIEWPORT_SIZE);
-      const scale = baseScale * zoom;
-      const toCanvasX = (re: number) => canvas.width / 2 + (re - offsetX) * scale;
-      const toCanvasY = (im: number) => canvas.height / 2 - (im - offsetY) * scale;
-
-      const viewportWidth = VIEWPORT_SIZE / zoom;
-      const viewportHeight = VIEWPORT_SIZE / zoom;
-      const minRe = offsetX - viewportWidth / 2;
-      const maxRe = offsetX + viewportWidth / 2;
-      const minIm = offsetY - viewportHeight / 2;
-      const maxIm = offsetY + viewportHeight / 2;
-
-      // Draw grids
-      drawGrids(exportCtx, gridConfig, minRe, maxRe, minIm, maxIm, scale, toCanvasX, toCanvasY, canvas.width, canvas.height);
-
-      // Draw coefficient dots as double rings (black + white)
-      const baseRadius = isMobile ? Math.min(canvas.width, canvas.height) * 0.025 : 8;
-
-      coefficients.forEach((coeff) => {
-        const x = toCanvasX(coeff.re);
-        const y = toCanvasY(coeff.im);
-
-        // Draw black ring (outer)
-        exportCtx.strokeStyle = 'black';
-        exportCtx.lineWidth = 5;
-        exportCtx.beginPath();
-        exportCtx.arc(x, y, baseRadius, 0, 2 * Math.PI);
-        exportCtx.stroke();
-
-        // Draw white ring (inner)
-        exportCtx.strokeStyle = 'white';
-        exportCtx.lineWidth = 3;
-        exportCtx.beginPath();
-        exportCtx.arc(x, y, baseRadius, 0, 2 * Math.PI);
-        exportCtx.stroke();
-      });
+      drawExportOverlay(exportCtx, canvas.width, canvas.height);
 
       return exportCanvas;
     },
     clearCanvas: () => {
-      const offscreenCanvas = offscreenCanvasRef.current;
-      if (!offscreenCanvas) return;
-
-      const offscreenCtx = offscreenCanvas.getContext('2d', { alpha: true });
-      if (!offscreenCtx) return;
-
-      offscreenCtx.clearRect(0, 0, offscreenCanvas.width, offscreenCanvas.height);
+      clearAccumulation();
 
       // Trigger redraw to show cleared canvas
       redrawCoordinateOverlay();
@@ -361,7 +530,149 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     restartRender: () => {
       // Trigger render without clearing canvas (respects autoClearCanvas setting)
       renderFractal();
-    }
+    },
+    exportRoots: (format, filename, onProgress, signal) => {
+      const plan = getBatchPlan();
+      // Negative ids never collide with canvas renders, so rendering can continue alongside
+      exportIdRef.current--;
+      return runRootExport({
+        format,
+        filename,
+        pool: getWorkerPool(),
+        renderId: exportIdRef.current,
+        batchCount: getRenderedBatchCount(plan),
+        createRequest: (renderId, batchIndex) => createBatchRequest(plan, renderId, batchIndex),
+        polynomialIndexOf: (localIndex) => getPolynomialIndex(
+          localIndex,
+          plan.skipInterval,
+          samplingConfig,
+          plan.totalPolynomials,
+          positionSets,
+          maxRoots,
+          plan.rootsPerPolynomial
+        ),
+        rootsPerPolynomial: plan.rootsPerPolynomial,
+        exactIndices: plan.totalPolynomials <= BigInt(Number.MAX_SAFE_INTEGER),
+        onProgress,
+        signal,
+      });
+    },
+    exportHighRes: async (width, height, onProgress, signal) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return null;
+      if (renderModeRef.current === 'newton_basin') {
+        throw new Error('High-resolution export is not available for Newton basins');
+      }
+
+      const plan = getBatchPlan();
+      const { skipInterval, totalPolynomials } = plan;
+      const calculateHue = createHueCalculator(plan);
+
+      // Same view as on screen: the shorter side spans the same part of the plane
+      const scale = Math.min(width / VIEWPORT_SIZE, height / VIEWPORT_SIZE) * zoom;
+
+      // Accumulate the roots of one batch that land in a tile (same 2x2 hits as on screen)
+      const drawBatchToTile = (batch: RootBatchResult, buffer: DensityBuffer, tile: ExportTile) => {
+        const stride = getRootRecordStride(batch.rootsPerPolynomial);
+        const data = batch.data;
+        const originX = width / 2 + ((batch.origin?.re ?? 0) - offsetX) * scale - tile.x;
+        const originY = height / 2 - ((batch.origin?.im ?? 0) - offsetY) * scale - tile.y;
+
+        for (let processedInThisFrame = 0; processedInThisFrame < batch.polynomialCount; processedInThisFrame++) {
+          const offset = processedInThisFrame * stride;
+          if (data[offset + 1] !== 1) continue;
+
+          // Most polynomials miss a given tile, so the index is only recovered when needed
+          let exactPolynomialIndex: bigint | null = null;
+          let poly: Complex[] | null = null;
+
+          for (let rootIndex = 0; rootIndex < batch.rootsPerPolynomial; rootIndex++) {
+            const x = originX + data[offset + ROOT_RECORD_HEADER + rootIndex * 2] * scale;
+            const y = originY - data[offset + ROOT_RECORD_HEADER + rootIndex * 2 + 1] * scale;
+            if (!(x >= -2 && x <= tile.width + 2 && y >= -2 && y <= tile.height + 2)) continue;
+
+            if (exactPolynomialIndex === null) {
+              exactPolynomialIndex = getPolynomialIndex(data[offset], skipInterval, samplingConfig, totalPolynomials, positionSets, maxRoots, batch.rootsPerPolynomial);
+              poly = colorModeRef.current === 'by_leading_coeff'
+                ? generatePolynomialByIndex(exactPolynomialIndex, positionSets, coefficientsRef.current)
+                : null;
+            }
+
+            const [r, g, b] = hueToRgb(calculateHue(Number(exactPolynomialIndex), poly, rootIndex, processedInThisFrame));
+            accumulateHit(buffer, Math.round(x) - 1, Math.round(y) - 1, 2, r, g, b);
+          }
+        }
+      };
+
+      console.log(`[High-Res Export Start]
+  Size: ${width} × ${height}
+  Polynomials to render: ${plan.polynomialsToRender.toLocaleString()}
+  Batches per tile: ${getRenderedBatchCount(plan).toLocaleString()}`);
+
+      exportIdRef.current--;
+      const image = await renderTiledDensityImage({
+        width,
+        height,
+        pool: getWorkerPool(),
+        renderId: exportIdRef.current,
+        batchCount: getRenderedBatchCount(plan),
+        createRequest: (renderId, batchIndex) => createBatchRequest(plan, renderId, batchIndex),
+        drawBatch: drawBatchToTile,
+        toneMapping: toneMappingRef.current,
+        onProgress,
+        signal,
+      });
+      if (!image) return null;
+
+      const ctx = image.getContext('2d');
+      if (!ctx) return null;
+
+      // Dark background behind the roots
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.fillStyle = "#0a0a14";
+      ctx.fillRect(0, 0, width, height);
+      ctx.globalCompositeOperation = 'source-over';
+
+      // Grids and rings at the size they have relative to the screen
+      const overlayScale = Math.min(width, height) / Math.min(canvas.width, canvas.height);
+      ctx.setTransform(overlayScale, 0, 0, overlayScale, 0, 0);
+      drawExportOverlay(ctx, width / overlayScale, height / overlayScale);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+      return image;
+    },
+    flyTo: flyToView,
+    exportModLayers: () => {
+      const canvas = canvasRef.current;
+      const layers = modLayersRef.current;
+      const layerBuffers = modLayerBuffersRef.current;
+      if (!canvas || !layers.enabled || layerBuffers?.length !== layers.modulus) return [];
+
+      // putImageData ignores compositing, so each layer goes through its own canvas onto the background
+      const layerCanvas = document.createElement('canvas');
+      layerCanvas.width = canvas.width;
+      layerCanvas.height = canvas.height;
+      const layerCtx = layerCanvas.getContext('2d');
+      if (!layerCtx) return [];
+      const imageData = layerCtx.createImageData(canvas.width, canvas.height);
+
+      return layers.layers.flatMap((_, residue) => {
+        if (layerBuffers[residue].maxCount === 0) return [];
+        const exportCanvas = document.createElement('canvas');
+        exportCanvas.width = canvas.width;
+        exportCanvas.height = canvas.height;
+        const exportCtx = exportCanvas.getContext('2d');
+        if (!exportCtx) return [];
+
+        renderModLayersToImageData(layerBuffers, layers, [residue], toneMappingRef.current, imageData);
+        layerCtx.putImageData(imageData, 0, 0);
+        exportCtx.fillStyle = "#0a0a14";
+        exportCtx.fillRect(0, 0, exportCanvas.width, exportCanvas.height);
+        exportCtx.drawImage(layerCanvas, 0, 0);
+        drawExportOverlay(exportCtx, canvas.width, canvas.height);
+        return [{ residue, canvas: exportCanvas }];
+      });
+    },
   }));
 
   // Update canvas size to fill screen
@@ -384,6 +695,10 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
         offscreenCanvasRef.current.width = newWidth;
         offscreenCanvasRef.current.height = newHeight;
 
+        // Hit counts are per pixel, so the density buffer follows the canvas size
+        densityBufferRef.current = createDensityBuffer(newWidth, newHeight);
+        modLayerBuffersRef.current = null;
+
         // Detect mobile based on screen size
         setIsMobile(window.innerWidth < 768);
       }
@@ -398,6 +713,9 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       if (renderingRef.current.animationId) {
         cancelAnimationFrame(renderingRef.current.animationId);
       }
+      stopFlight();
+      workerPoolRef.current?.terminate();
+      workerPoolRef.current = null;
     };
   }, []);
 
@@ -413,8 +731,26 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
         return;
       }
 
+      // Ctrl+Z / Cmd+Z - undo, with Shift - redo
+      if ((e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'Z')) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          onRedo?.();
+        } else {
+          onUndo?.();
+        }
+      }
+      // [ and ] - back and forward through the view history
+      else if (e.key === '[' || e.key === ']') {
+        e.preventDefault();
+        if (e.key === '[') {
+          onViewBack?.();
+        } else {
+          onViewForward?.();
+        }
+      }
       // R key - restart render (only when at least one auto flag is off)
-      if (e.key === 'r' || e.key === 'R') {
+      else if (e.key === 'r' || e.key === 'R') {
         if (!autoClearCanvas || !autoRestart) {
           e.preventDefault();
           renderFractal();
@@ -424,19 +760,28 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       else if (e.key === 'c' || e.key === 'C') {
         if (!autoClearCanvas || !autoRestart) {
           e.preventDefault();
-          const offscreenCanvas = offscreenCanvasRef.current;
-          if (offscreenCanvas) {
-            const offscreenCtx = offscreenCanvas.getContext('2d', { alpha: true });
-            if (offscreenCtx) {
-              offscreenCtx.clearRect(0, 0, offscreenCanvas.width, offscreenCanvas.height);
-              redrawCoordinateOverlay();
-            }
-          }
+          clearAccumulation();
+          redrawCoordinateOverlay();
         }
       }
+      // P key - pause or resume the render
+      else if (e.key === 'p' || e.key === 'P') {
+        e.preventDefault();
+        if (isPaused) {
+          resumeRender();
+        } else {
+          pauseRender();
+        }
+      }
+      // M key - more roots: next refinement pass
+      else if (e.key === 'm' || e.key === 'M') {
+        e.preventDefault();
+        refineRender();
+      }
       // + or = key (with or without shift) - zoom in 2x
       else if (e.key === '+' || e.key === '=') {
         e.preventDefault();
+        stopFlight();
         if (!isInteractiveTransform) {
           createSnapshot();
         }
@@ -446,6 +791,7 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       // - or _ key - zoom out 2x
       else if (e.key === '-' || e.key === '_') {
         e.preventDefault();
+        stopFlight();
         if (!isInteractiveTransform) {
           createSnapshot();
         }
@@ -467,7 +813,7 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [zoom, onZoomChange, isMobile, isInteractiveTransform, autoClearCanvas, autoRestart]);
+  }, [zoom, onZoomChange, onUndo, onRedo, onViewBack, onViewForward, isMobile, isInteractiveTransform, autoClearCanvas, autoRestart, isRendering, isPaused, refinement]);
 
   // Handle polynomial overlay rendering when hoveredPolynomialIndex changes
   useEffect(() => {
@@ -483,7 +829,76 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
         cancelAnimationFrame(overlayRenderingRef.current.animationId);
       }
     };
-  }, [hoveredPolynomialIndex, degree, coefficients, polynomialNeighborRange, zoom, offsetX, offsetY]);
+  }, [hoveredPolynomialIndex, degree, coefficients, positionSets, polynomialNeighborRange, zoom, offsetX, offsetY, rootSolver, familyTransform, samplingConfig.mode, renderMode, matrixStructure, dragonPoint]);
+
+  // Newton-basin mode follows the hovered polynomial, falling back to the pinned one
+  const basinPolynomialIndex = hoveredPolynomialIndex ?? selectedPolynomialIndex ?? 0n;
+  useEffect(() => {
+    if (renderMode !== 'newton_basin') return;
+    startBasinRendering(basinPolynomialIndex);
+  }, [renderMode, basinPolynomialIndex, coefficients, positionSets, familyTransform, rootSolver, zoom, offsetX, offsetY, canvasSize]);
+
+  // Recompute the inspected polynomial with the current parameters
+  const inspection = useMemo(() => {
+    if (!inspectedRoot) return null;
+    const index = inspectedRoot.polynomialIndex;
+    if (index >= getTotalPolynomials(positionSets)) return null;
+
+    const coeffs = generatePolynomialByIndex(index, positionSets, coefficients);
+    let roots: Complex[];
+    let converged: boolean;
+    let iterations: number;
+    if (renderMode === 'bohemian') {
+      const result = getBohemianEigenvalues({ structure: matrixStructure, size: degree }, coeffs, getAdaptiveMaxIterations(degree));
+      ({ eigenvalues: roots, converged, iterations } = result);
+    } else {
+      const poly = applyFamilyTransform(familyTransform, coeffs);
+      ({ roots, converged, iterations } = findRoots(rootSolver, poly, getAdaptiveMaxIterations(poly.length - 1)));
+    }
+
+    // Solver order can differ from the render, so mark the root closest to the clicked dot
+    let rootNumber = 0;
+    roots.forEach((root, i) => {
+      const best = roots[rootNumber];
+      if (Math.hypot(root.re - inspectedRoot.re, root.im - inspectedRoot.im) <
+          Math.hypot(best.re - inspectedRoot.re, best.im - inspectedRoot.im)) {
+        rootNumber = i;
+      }
+    });
+
+    return {
+      polynomialIndex: index,
+      paletteIndices: getPaletteIndicesByIndex(index, positionSets),
+      roots,
+      converged,
+      iterations,
+      rootNumber,
+    };
+  }, [inspectedRoot, positionSets, coefficients, renderMode, matrixStructure, degree, familyTransform, rootSolver]);
+
+  // Highlight the inspected polynomial on the overlay canvas (the strip hover overlay takes precedence)
+  useEffect(() => {
+    if (hoveredPolynomialIndex !== null) return;
+    const canvas = canvasRef.current;
+    const overlayCanvas = overlayCanvasRef.current;
+    const overlayCtx = overlayCanvas?.getContext('2d');
+    if (!canvas || !overlayCanvas || !overlayCtx) return;
+
+    overlayCtx.clearRect(0, 0, overlayCanvas.width, overlayCanvas.height);
+    if (!inspection || !highlightInspected) return;
+
+    const scale = Math.min(canvas.width / VIEWPORT_SIZE, canvas.height / VIEWPORT_SIZE) * zoom;
+    const dpr = window.devicePixelRatio || 1;
+    inspection.roots.forEach((root, i) => {
+      const x = canvas.width / 2 + (root.re - offsetX) * scale;
+      const y = canvas.height / 2 - (root.im - offsetY) * scale;
+      overlayCtx.strokeStyle = i === inspection.rootNumber ? "#facc15" : "rgba(255, 255, 255, 0.9)";
+      overlayCtx.lineWidth = 2 * dpr;
+      overlayCtx.beginPath();
+      overlayCtx.arc(x, y, 5 * dpr, 0, 2 * Math.PI);
+      overlayCtx.stroke();
+    });
+  }, [inspection, highlightInspected, hoveredPolynomialIndex, zoom, offsetX, offsetY, canvasSize]);
 
   // Store gridConfig in ref so renderFractal loop always uses latest value
   const gridConfigRef = useRef(gridConfig);
@@ -497,18 +912,15 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     setErrorMessage(null);
 
     // Calculate how many frames we would render with current parameters
-    const totalPolynomials = getTotalPolynomials(degree, coefficients.length);
-    const theoreticalTotalRoots = totalPolynomials * degree;
-    const skipRatio = theoreticalTotalRoots > maxRoots ? theoreticalTotalRoots / maxRoots : 1;
-    const skipInterval = Math.ceil(skipRatio);
-    const polynomialsToRender = skipRatio > 1 ? Math.ceil(totalPolynomials / skipInterval) : totalPolynomials;
-    const framesToRender = Math.ceil(polynomialsToRender / BATCH_SIZE);
+    const { theoreticalTotalRoots, framesToRender } = getBatchPlan();
+    const modLayersModulus = modLayers.enabled ? modLayers.modulus : 0;
 
     // Update theoretical max immediately for display (even before render starts)
     setTheoreticalMaxRoots(theoreticalTotalRoots);
     setTotalFramesToRender(framesToRender);
 
     const prev = previousRenderParams.current;
+    const positionSetsKey = JSON.stringify(positionSets);
 
     // Check each parameter independently - any change triggers re-render
     // Exception: maxRoots only triggers if framesToRender actually changed
@@ -517,10 +929,9 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       prev.degree !== degree ||
       prev.coefficients.length !== coefficients.length ||
       prev.coefficients.some((c, i) => c.re !== coefficients[i]?.re || c.im !== coefficients[i]?.im) ||
-      prev.transparency !== transparency ||
+      prev.positionSetsKey !== positionSetsKey ||
       prev.colorBandWidth !== colorBandWidth ||
       prev.colorMode !== colorMode ||
-      prev.blendMode !== blendMode ||
       prev.canvasSize.width !== canvasSize.width ||
       prev.canvasSize.height !== canvasSize.height ||
       prev.offsetX !== offsetX ||
@@ -529,7 +940,14 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       prev.framesToRender !== framesToRender ||
       prev.samplingMode !== samplingConfig.mode ||
       prev.samplingFilterIndex !== samplingConfig.filterCoeffIndex ||
-      prev.samplingOffset !== samplingConfig.offset
+      prev.samplingFilterPosition !== samplingConfig.filterPosition ||
+      prev.samplingOffset !== samplingConfig.offset ||
+      prev.rootSolver !== rootSolver ||
+      prev.familyTransform !== familyTransform ||
+      prev.renderMode !== renderMode ||
+      prev.modLayersModulus !== modLayersModulus ||
+      (renderMode === 'bohemian' && prev.matrixStructure !== matrixStructure) ||
+      (renderMode === 'dragon' && (prev.dragonPoint.re !== dragonPoint.re || prev.dragonPoint.im !== dragonPoint.im))
     );
 
     const shouldRender = paramsChanged && autoRestart;
@@ -540,49 +958,57 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
         framesToRender,
         degree,
         coefficients: [...coefficients],
-        transparency,
+        positionSetsKey,
         colorBandWidth,
         colorMode,
-        blendMode,
         canvasSize: { ...canvasSize },
         offsetX,
         offsetY,
         zoom,
         samplingMode: samplingConfig.mode,
         samplingFilterIndex: samplingConfig.filterCoeffIndex,
-        samplingOffset: samplingConfig.offset
+        samplingFilterPosition: samplingConfig.filterPosition,
+        samplingOffset: samplingConfig.offset,
+        rootSolver,
+        familyTransform,
+        renderMode,
+        matrixStructure,
+        dragonPoint,
+        modLayersModulus
       };
 
       // Auto clear canvas if enabled (independent of auto restart)
       if (autoClearCanvas) {
-        const offscreenCanvas = offscreenCanvasRef.current;
-        if (offscreenCanvas) {
-          const offscreenCtx = offscreenCanvas.getContext('2d', { alpha: true });
-          if (offscreenCtx) {
-            offscreenCtx.clearRect(0, 0, offscreenCanvas.width, offscreenCanvas.height);
-          }
-        }
+        clearAccumulation();
       }
     }
 
-    if (shouldRender) {
+    // Newton basins draw into the offscreen canvas themselves
+    if (shouldRender && renderMode !== 'newton_basin') {
       // Always render in background, even during interactive transforms
       // Snapshot will be shown to user for instant feedback, but offscreen canvas
       // will be updated in background and displayed when gesture ends
       renderFractal();
     }
-  }, [degree, coefficients, maxRoots, maxIterations, transparency, colorBandWidth, colorMode, blendMode, canvasSize, offsetX, offsetY, zoom, samplingConfig]);
+  }, [degree, coefficients, positionSets, maxRoots, maxIterations, colorBandWidth, colorMode, canvasSize, offsetX, offsetY, zoom, samplingConfig, rootSolver, familyTransform, renderMode, matrixStructure, dragonPoint, modLayers.enabled, modLayers.modulus]);
 
   // Keep refs in sync with props for live updates during rendering
   useEffect(() => {
-    gammaCorrectionRef.current = gammaCorrection;
     degreeRef.current = degree;
     coefficientsRef.current = coefficients;
-    transparencyRef.current = transparency;
     colorBandWidthRef.current = colorBandWidth;
     colorModeRef.current = colorMode;
-    blendModeRef.current = blendMode;
-  }, [gammaCorrection, degree, coefficients, transparency, colorBandWidth, colorMode, blendMode]);
+  }, [degree, coefficients, colorBandWidth, colorMode]);
+
+  // Tone mapping is applied at display time - re-map the existing hit counts without re-rendering.
+  // Layer colors and visibility likewise only recomposite (a new modulus re-renders).
+  useEffect(() => {
+    toneMappingRef.current = { mode: toneMapping, exposure, gammaCorrection };
+    modLayersRef.current = modLayers;
+    updateOffscreenFromDensity();
+    updateMinimapImage();
+    redrawCoordinateOverlay();
+  }, [toneMapping, exposure, gammaCorrection, modLayers]);
 
   // Show toast when switching to manual mode
   useEffect(() => {
@@ -600,50 +1026,24 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     if (!autoRestart) {
       redrawCoordinateOverlay();
     }
-  }, [autoRestart, gammaCorrection, coefficients, offsetX, offsetY, zoom, gridConfig]);
-
-  const renderFractal = async () => {
-    const canvas = canvasRef.current;
-    const offscreenCanvas = offscreenCanvasRef.current;
-    if (!canvas || !offscreenCanvas) return;
-
-    // Cancel any ongoing render by incrementing ID
-    if (renderingRef.current.animationId) {
-      cancelAnimationFrame(renderingRef.current.animationId);
-    }
-
-    // Start new render with unique ID
-    const currentRenderId = renderingRef.current.id + 1;
-    renderingRef.current = { id: currentRenderId };
-    setIsRendering(true);
-    setRenderProgress(0);
-    setCurrentRenderFrame(0);
-
-    const ctx = canvas.getContext("2d");
-    const offscreenCtx = offscreenCanvas.getContext("2d", {
-      alpha: true,
-      desynchronized: true,  // Allow desync for better performance
-      willReadFrequently: false  // We only write, never read pixels
-    });
-    if (!ctx || !offscreenCtx) return;
-
-    // Note: Canvas clearing is handled by the main useEffect based on autoClearCanvas setting
-    // This ensures clearing happens exactly once when params change, not every time renderFractal is called
-
-    // Set composite operation to blend semi-transparent pixels (read from ref for live updates)
-    offscreenCtx.globalCompositeOperation = blendModeRef.current;
-
-    // Disable antialiasing for better performance
-    offscreenCtx.imageSmoothingEnabled = false;
+  }, [autoRestart, coefficients, offsetX, offsetY, zoom, gridConfig, renderMode, dragonPoint]);
 
+  // Sampling and batching parameters of a render, shared with the root export
+  const getBatchPlan = (): BatchPlan => {
     // Calculate total polynomials without allocating memory for them
-    const totalPolynomials = getTotalPolynomials(degree, coefficients.length);
+    const totalPolynomials = getTotalPolynomials(positionSets);
+
+    // Derived families (P', P(z)·P̄(z), ...) have a different number of roots than P;
+    // the dragon set plots one value per polynomial
+    const rootsPerPolynomial = getPointsPerPolynomial(renderMode, familyTransform, degree);
+    const evaluationPoint = renderMode === 'dragon' ? dragonPoint : null;
+    const bohemian = renderMode === 'bohemian' ? { structure: matrixStructure, size: degree } : null;
 
     // Calculate theoretical total roots for consistent hue calculation
-    const theoreticalTotalRoots = totalPolynomials * degree;
+    const theoreticalTotalRoots = totalPolynomials * BigInt(rootsPerPolynomial);
 
-    // Adaptive max iterations based on polynomial degree (2x increase for better convergence)
-    const adaptiveMaxIterations = getAdaptiveMaxIterations(degree);
+    // Adaptive max iterations based on the degree actually solved (2x increase for better convergence)
+    const adaptiveMaxIterations = getAdaptiveMaxIterations(rootsPerPolynomial);
 
     // Calculate polynomial skip interval to limit total rendered roots
     //
@@ -658,25 +1058,185 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     // FUTURE RESEARCH: This could be explored by rendering polynomials grouped by modulo classes
     // (e.g., all polynomials where index % 100 = 0) on separate canvas layers, allowing users
     // to visualize and toggle different "families" of polynomials and their geometric structures.
-    const skipRatio = theoreticalTotalRoots > maxRoots
-      ? theoreticalTotalRoots / maxRoots
-      : 1;
-    const skipInterval = Math.ceil(skipRatio);
+    const skipInterval = getSkipInterval(totalPolynomials, rootsPerPolynomial, maxRoots);
 
     // Calculate actual polynomials to render (evenly distributed)
-    const polynomialsToRender = skipRatio > 1
-      ? Math.ceil(totalPolynomials / skipInterval)
-      : totalPolynomials;
+    const polynomialsToRender = bigIntCeilDiv(totalPolynomials, skipInterval);
 
     // Calculate number of frames needed (each frame processes BATCH_SIZE polynomials)
-    const framesToRender = Math.ceil(polynomialsToRender / BATCH_SIZE);
+    const framesToRender = Number(bigIntCeilDiv(polynomialsToRender, BigInt(BATCH_SIZE)));
+
+    // Deep zoom: polish the roots that can land on screen (Bohemian eigenvalues have no polynomial to polish)
+    const viewRadius = (VIEWPORT_SIZE / 2 / zoom) * Math.hypot(canvasSize.width, canvasSize.height) /
+      Math.min(canvasSize.width, canvasSize.height);
+    const precision = zoom >= EXTENDED_PRECISION_ZOOM && !bohemian
+      ? { center: { re: offsetX, im: offsetY }, radius: 2 * viewRadius + EXTENDED_PRECISION_MARGIN }
+      : null;
+
+    return {
+      totalPolynomials,
+      rootsPerPolynomial,
+      theoreticalTotalRoots,
+      adaptiveMaxIterations,
+      skipInterval,
+      polynomialsToRender,
+      framesToRender,
+      evaluationPoint,
+      bohemian,
+      precision,
+    };
+  };
+
+  // Worker request for one batch of a plan (batch i covers local indices i·BATCH_SIZE onwards;
+  // batches past framesToRender belong to refinement passes, which start every polynomialsToRender)
+  const createBatchRequest = (plan: BatchPlan, renderId: number, batchIndex: number): RootBatchRequest => {
+    const pass = Math.floor(batchIndex / plan.framesToRender);
+    const startInPass = (batchIndex % plan.framesToRender) * BATCH_SIZE;
+    const polynomialsPerPass = Number(plan.polynomialsToRender);
+    return {
+      renderId,
+      batchIndex,
+      startLocalIndex: pass * polynomialsPerPass + startInPass,
+      count: Math.min(BATCH_SIZE, polynomialsPerPass - startInPass),
+      skipInterval: plan.skipInterval,
+      samplingConfig,
+      totalPolynomials: plan.totalPolynomials,
+      positionSets,
+      coefficients: coefficientsRef.current,
+      maxRoots,
+      maxIterations: plan.adaptiveMaxIterations,
+      solver: rootSolver,
+      familyTransform,
+      evaluationPoint: plan.evaluationPoint,
+      bohemian: plan.bohemian,
+      precision: plan.precision,
+    };
+  };
+
+  // Hue of each root of a plan; reads the color settings from refs so they can change during a render
+  const createHueCalculator = (plan: BatchPlan): HueCalculator => {
+    const { totalPolynomials, rootsPerPolynomial, theoreticalTotalRoots, framesToRender } = plan;
 
     // Calculate effective roots for color distribution
     // If rendering fewer than 256 frames, normalize to 256 frames for better color coverage
     const MIN_FRAMES_FOR_COLOR = 256;
+    // (Hue only needs ratios, so float approximations of the counts are fine here)
+    const approxTotalPolynomials = Number(totalPolynomials);
     const effectiveRootsForColor = framesToRender < MIN_FRAMES_FOR_COLOR
-      ? Math.min(MIN_FRAMES_FOR_COLOR * BATCH_SIZE, totalPolynomials) * degree
-      : theoreticalTotalRoots;
+      ? Math.min(MIN_FRAMES_FOR_COLOR * BATCH_SIZE, approxTotalPolynomials) * rootsPerPolynomial
+      : Number(theoreticalTotalRoots);
+
+    return (polynomialIndex: number, poly: Complex[] | null, rootIndex: number, processedInThisFrame: number) => {
+      const currentColorMode = colorModeRef.current;
+      const currentColorBandWidth = colorBandWidthRef.current;
+      const currentCoefficients = coefficientsRef.current;
+
+      if (currentColorMode === 'by_leading_coeff') {
+        // Precompute constants for leading coefficient mode
+        const coeffCount = currentCoefficients.length;
+        const spacePerCoeff = 360 / coeffCount;
+        const maxBandWidth = 1 / 6;
+        const bandWidthFraction = Math.min(1 / (coeffCount * 2), maxBandWidth);
+        const bandWidthDegrees = bandWidthFraction * 360;
+        // Polynomials sharing one leading coefficient form a contiguous index block
+        const polynomialsPerCoeff = approxTotalPolynomials / positionSets[positionSets.length - 1].length;
+
+        // Highest power, or the last free entry of a Bohemian matrix
+        const leadingCoeffIndex = poly[poly.length - 1];
+        const leadingCoeffIndexInPalette = currentCoefficients.findIndex(
+          c => c.re === leadingCoeffIndex.re && c.im === leadingCoeffIndex.im
+        );
+        const baseHue = leadingCoeffIndexInPalette * spacePerCoeff;
+
+        const localPolyIndex = polynomialIndex % polynomialsPerCoeff;
+        const hueOffset = (localPolyIndex / polynomialsPerCoeff) * bandWidthDegrees * currentColorBandWidth;
+
+        return baseHue + hueOffset;
+      } else {
+        // Index-based mode
+        const frameSize = BATCH_SIZE * rootsPerPolynomial;
+        const theoreticalRootIndex = polynomialIndex * rootsPerPolynomial + rootIndex;
+        const indexWithinFrame = processedInThisFrame * rootsPerPolynomial + rootIndex;
+        const hueLocal = (indexWithinFrame / frameSize) * 360;
+        const hueGlobal = (theoreticalRootIndex / effectiveRootsForColor) * 360;
+        return hueLocal * (1 - currentColorBandWidth) + hueGlobal * currentColorBandWidth;
+      }
+    };
+  };
+
+  // refine: add the next refinement pass to the drawn roots instead of drawing from the start
+  const renderFractal = async (refine: boolean = false) => {
+    // Restarts (R key, restart button) redraw whatever the current mode shows
+    if (renderModeRef.current === 'newton_basin') {
+      startBasinRendering(basinPolynomialIndex);
+      return;
+    }
+
+    const canvas = canvasRef.current;
+    const offscreenCanvas = offscreenCanvasRef.current;
+    if (!canvas || !offscreenCanvas) return;
+
+    // Cancel any ongoing render by incrementing ID
+    if (renderingRef.current.animationId) {
+      cancelAnimationFrame(renderingRef.current.animationId);
+    }
+
+    // Drop queued worker batches of the previous render
+    workerPoolRef.current?.cancel(renderingRef.current.id);
+
+    // Start new render with unique ID
+    const currentRenderId = renderingRef.current.id + 1;
+    renderingRef.current = { id: currentRenderId };
+    resumeRenderRef.current = null;
+    setIsRendering(true);
+    setRenderProgress(0);
+    setCurrentRenderFrame(0);
+
+    const ctx = canvas.getContext("2d");
+    const densityBuffer = densityBufferRef.current;
+    if (!ctx || !densityBuffer) return;
+
+    // Note: Canvas clearing is handled by the main useEffect based on autoClearCanvas setting
+    // This ensures clearing happens exactly once when params change, not every time renderFractal is called
+
+    const plan = getBatchPlan();
+    const {
+      totalPolynomials,
+      rootsPerPolynomial,
+      theoreticalTotalRoots,
+      adaptiveMaxIterations,
+      skipInterval,
+      polynomialsToRender,
+      framesToRender,
+      evaluationPoint,
+      bohemian,
+    } = plan;
+
+    // (Counts in the logs only need to be approximate)
+    const approxTotalPolynomials = Number(totalPolynomials);
+    const calculateHue = createHueCalculator(plan);
+
+    // Refinement passes continue the batch sequence: pass p is batches p·framesToRender onwards.
+    // They belong to the points, so they are kept (and restored after a reload) until those change.
+    const pointsKey = JSON.stringify(getPointsKey(plan));
+    const refinementLimit = getRefinementPassLimit(samplingConfig, skipInterval, totalPolynomials, maxRoots);
+    // Batch at which a render that was paused before a reload pauses again
+    let pauseAtBatch: number | null = null;
+    if (refinementRef.current.key !== pointsKey) {
+      const saved = loadRenderProgress();
+      const restored = saved?.key === pointsKey ? saved : null;
+      refinementRef.current = { key: pointsKey, passes: Math.min(restored?.passes ?? 0, refinementLimit) };
+      if (restored?.paused) pauseAtBatch = restored.drawnBatches;
+    }
+    if (refine) {
+      refinementRef.current.passes = Math.min(refinementRef.current.passes + 1, refinementLimit);
+    }
+    const refinementPasses = refinementRef.current.passes;
+    setRefinement({ passes: refinementPasses, limit: refinementLimit });
+    const totalBatches = framesToRender * (refinementPasses + 1);
+    const firstBatch = refine ? framesToRender * refinementPasses : 0;
+    pausedRef.current = false;
+    setIsPaused(false);
 
     // Estimate rendering time (assuming 60 FPS)
     const estimatedSeconds = framesToRender / 60;
@@ -691,26 +1251,34 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       random: 'Random',
       by_a0: `By a₀ = coeff[${samplingConfig.filterCoeffIndex}]`,
       by_an: `By aₙ = coeff[${samplingConfig.filterCoeffIndex}]`,
+      by_position: `By a${samplingConfig.filterPosition} = coeff[${samplingConfig.filterCoeffIndex}]`,
+      gray: 'Gray code',
+      progressive: 'Progressive (radical inverse)',
     }[samplingConfig.mode];
 
     console.log(`[Fractal Render Start]
   Sampling: ${samplingModeLabel}
   Batch size: ${BATCH_SIZE.toLocaleString()} polynomials per frame
+  Workers: ${getWorkerPool().size}
   Total polynomials: ${totalPolynomials.toLocaleString()}
   Theoretical max roots: ${theoreticalTotalRoots.toLocaleString()}
   Max roots to draw: ${maxRoots === Infinity ? '∞' : maxRoots.toLocaleString()}
   Skip interval: every ${skipInterval} polynomials
-  Polynomials to render: ${polynomialsToRender.toLocaleString()} (${((polynomialsToRender / totalPolynomials) * 100).toFixed(1)}%)
+  Polynomials to render: ${polynomialsToRender.toLocaleString()} (${((Number(polynomialsToRender) / approxTotalPolynomials) * 100).toFixed(1)}%)
   Frames to render: ${framesToRender.toLocaleString()}
+  Refinement passes: ${refinementPasses} of ${refinementLimit}${refine ? ' (drawing the last one)' : ''}
+  Root solver: ${rootSolver}${plan.precision ? ' + double-double polishing near the view' : ''}
+  Family transform: ${familyTransform}
+  Plotted: ${evaluationPoint ? `P(z) at z = ${evaluationPoint.re} + ${evaluationPoint.im}i` : bohemian ? `eigenvalues of ${degree}×${degree} ${matrixStructure} matrices` : 'roots'}
   Adaptive max iterations: ${adaptiveMaxIterations} (degree ${degree})
   Estimated time: ${estimatedTime} @ 60 FPS`);
 
     // Shared rendering state
-    let currentFrame = 0;
+    let currentFrame = firstBatch;
     let totalConverged = 0;
     let totalIterations = 0;
-    let processedRoots = 0;
-    let currentPolynomialIndex = 0; // Track which polynomial we're processing (0-indexed)
+    let totalWarmStarted = 0;
+    let processedRoots = refine ? rootCount : 0;
 
     // Equal scale for both axes with zoom applied
     const baseScale = Math.min(canvas.width / VIEWPORT_SIZE, canvas.height / VIEWPORT_SIZE);
@@ -718,6 +1286,66 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     const toCanvasX = (re: number) => canvas.width / 2 + (re - offsetX) * scale;
     const toCanvasY = (im: number) => canvas.height / 2 - (im - offsetY) * scale;
 
+    // The minimap pass restarts only when the points themselves change; a render that
+    // merely moved the view continues it from the first batch it has not seen yet
+    const minimapSize = Math.round(MINIMAP_SIZE * (window.devicePixelRatio || 1));
+    const minimapKey = getMinimapKey(plan, minimapSize);
+    if (minimapPassRef.current?.key !== minimapKey) {
+      minimapPassRef.current = { key: minimapKey, buffer: createDensityBuffer(minimapSize, minimapSize), drawnBatches: 0 };
+      setMinimapImage(null);
+    }
+    const minimapPass = minimapPassRef.current;
+    const minimapScale = minimapSize / VIEWPORT_SIZE;
+
+    // Modulo-class layers: every drawn root also counts in the layer of its polynomial's
+    // residue class. The buffers persist across renders like the density buffer.
+    if (!modLayers.enabled) {
+      modLayerBuffersRef.current = null;
+    } else if (
+      modLayerBuffersRef.current?.length !== modLayers.modulus ||
+      modLayerBuffersRef.current[0].width !== densityBuffer.width ||
+      modLayerBuffersRef.current[0].height !== densityBuffer.height
+    ) {
+      modLayerBuffersRef.current = createModLayerBuffers(modLayers.modulus, densityBuffer.width, densityBuffer.height);
+    }
+    const layerBuffers = modLayerBuffersRef.current;
+    const layerModulus = BigInt(modLayers.modulus);
+
+    // Roots do not depend on the view: batches stored by earlier renders of the same
+    // points are drawn again directly, and only the others go to the workers
+    const rootStore = rootStoreRef.current;
+    const rootStoreKey = getRootStoreKey(plan);
+    prepareRootStore(rootStore, rootStoreKey, totalBatches);
+    let cachedBatches = 0;
+
+    // Batches solved in earlier sessions come from the persistent cache. Deep-zoom batches
+    // depend on the view and are not persisted. Until the cache has been looked up, only
+    // batches in memory are drawn.
+    const rootCacheSettings = loadRootCacheSettings();
+    const rootCache: { pending: boolean; hash: string | null; batches: Set<number> } = {
+      pending: rootCacheSettings.enabled && !plan.precision,
+      hash: null,
+      batches: new Set(),
+    };
+    const rootCacheLabel = bohemian
+      ? `${degree}×${degree} ${matrixStructure} matrices, ${polynomialsToRender.toLocaleString()} samples`
+      : `Degree ${degree}, ${polynomialsToRender.toLocaleString()} polynomials, ${rootSolver}`;
+    let persistedBatches = 0;
+    if (rootCache.pending) {
+      hashRootCacheKey(rootStoreKey)
+        .then(async (hash) => {
+          rootCache.batches = await openRootCacheEntry(hash);
+          rootCache.hash = hash;
+        })
+        .catch((error) => console.warn('[Root Cache] Unavailable:', error))
+        .finally(() => {
+          rootCache.pending = false;
+        });
+    }
+
+    // Clicks are resolved around the view center; roots kept from before a pan move with it
+    moveRootSpatialIndexOrigin(getRootSpatialIndex(), offsetX, offsetY);
+
     // Viewport culling bounds (skip rendering roots outside visible area)
     const margin = 2;
     const minX = -margin;
@@ -725,119 +1353,208 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     const minY = -margin;
     const maxY = canvas.height + margin;
 
-    // Hue calculation function - uses refs to read latest values during rendering
-    type HueCalculator = (polynomialIndex: number, poly: Complex[], rootIndex: number, processedInThisFrame: number) => number;
-
-    const calculateHue: HueCalculator = (polynomialIndex: number, poly: Complex[], rootIndex: number, processedInThisFrame: number) => {
-      const currentColorMode = colorModeRef.current;
-      const currentColorBandWidth = colorBandWidthRef.current;
-      const currentCoefficients = coefficientsRef.current;
-      const currentDegree = degreeRef.current;
-
-      if (currentColorMode === 'by_leading_coeff') {
-        // Precompute constants for leading coefficient mode
-        const coeffCount = currentCoefficients.length;
-        const spacePerCoeff = 360 / coeffCount;
-        const maxBandWidth = 1 / 6;
-        const bandWidthFraction = Math.min(1 / (coeffCount * 2), maxBandWidth);
-        const bandWidthDegrees = bandWidthFraction * 360;
-        const polynomialsPerCoeff = totalPolynomials / coeffCount;
+    // Root finding runs in the worker pool. Each batch covers BATCH_SIZE sampling-local
+    // indices (what one frame used to process); batches are submitted ahead of time
+    // and drawn strictly in order so colors and progress match sequential rendering.
+    const pool = getWorkerPool();
+    const maxBatchesInFlight = pool.size * 2;
+    const completedBatches = new Map<number, RootBatchResult>();
+    let nextBatchToSubmit = firstBatch;
+    let batchesInFlight = 0;
+
+    const submitBatches = () => {
+      while (batchesInFlight < maxBatchesInFlight && nextBatchToSubmit < totalBatches) {
+        const batchIndex = nextBatchToSubmit;
+        const stored = getStoredBatch(rootStore, batchIndex);
+        if (stored) {
+          nextBatchToSubmit++;
+          completedBatches.set(batchIndex, stored);
+          cachedBatches++;
+          continue;
+        }
+        if (rootCache.pending) break;
+        nextBatchToSubmit++;
+        batchesInFlight++;
+
+        const { hash } = rootCache;
+        const solve = async (): Promise<RootBatchResult | null> => {
+          // Batches already solving when the render is replaced still come back, for the store and cache
+          const result = await pool.submit(createBatchRequest(plan, currentRenderId, batchIndex), { keepIfCancelled: true });
+          if (result && hash) {
+            writeRootCacheBatch(hash, rootCacheLabel, totalBatches, result, rootCacheSettings.budgetBytes)
+              .catch((error) => console.warn('[Root Cache] Write failed:', error));
+          }
+          return result;
+        };
+        const load = async (): Promise<RootBatchResult | null> => {
+          const result = await readRootCacheBatch(hash!, batchIndex, currentRenderId).catch(() => null);
+          if (!result) return solve();
+          persistedBatches++;
+          return result;
+        };
+
+        const fetchBatch = () => (hash && rootCache.batches.has(batchIndex) ? load() : solve());
+        // A batch an earlier render of the same points is still solving is awaited rather than
+        // solved again; if that render dropped it before it started, it is solved here
+        const pending = rootStore.pending.get(batchIndex);
+        const batch = pending
+          ? pending.then((result) => result ?? fetchBatch())
+          : trackPendingBatch(rootStore, batchIndex, fetchBatch());
+
+        batch.then((result) => {
+          batchesInFlight--;
+          // Keep results of cancelled renders too, while the store still holds the same points
+          if (result && rootStore.key === rootStoreKey) storeRootBatch(rootStore, batchIndex, result);
+          if (renderingRef.current.id !== currentRenderId) return;
+          // A batch that failed (the pool logs why) is drawn empty so the batches after it still are
+          completedBatches.set(batchIndex, result ?? {
+            renderId: currentRenderId,
+            batchIndex,
+            polynomialCount: 0,
+            rootsPerPolynomial: plan.rootsPerPolynomial,
+            warmStartedCount: 0,
+            origin: null,
+            data: new Float64Array(0),
+          });
+        });
+      }
+    };
 
-        const leadingCoeffIndex = poly[currentDegree];
-        const leadingCoeffIndexInPalette = currentCoefficients.findIndex(
-          c => c.re === leadingCoeffIndex.re && c.im === leadingCoeffIndex.im
+    // Draw one finished batch onto the offscreen canvas (and the minimap, if it lacks the batch)
+    const drawBatch = (batch: RootBatchResult, batchIndex: number) => {
+      const stride = getRootRecordStride(batch.rootsPerPolynomial);
+      const data = batch.data;
+      const spatialIndex = getRootSpatialIndex();
+      // Offset from the batch origin to the spatial index origin (0 when they are the same)
+      const indexShiftRe = (batch.origin?.re ?? 0) - spatialIndex.originRe;
+      const indexShiftIm = (batch.origin?.im ?? 0) - spatialIndex.originIm;
+      totalWarmStarted += batch.warmStartedCount;
+      const drawToMinimap = batchIndex === minimapPass.drawnBatches;
+      // Deep-zoom records are relative to the view center: draw them without going through absolute values
+      const originRe = batch.origin?.re ?? 0;
+      const originIm = batch.origin?.im ?? 0;
+      const originX = toCanvasX(originRe);
+      const originY = toCanvasY(originIm);
+
+      for (let processedInThisFrame = 0; processedInThisFrame < batch.polynomialCount; processedInThisFrame++) {
+        const offset = processedInThisFrame * stride;
+        if (data[offset + 1] !== 1) continue;
+
+        // Records store the local index; the exact polynomial index is recomputed here
+        const exactPolynomialIndex = getPolynomialIndex(
+          data[offset],
+          skipInterval,
+          samplingConfig,
+          totalPolynomials,
+          positionSets,
+          maxRoots,
+          batch.rootsPerPolynomial
         );
-        const baseHue = leadingCoeffIndexInPalette * spacePerCoeff;
+        const polynomialIndex = Number(exactPolynomialIndex);
+        totalConverged++;
+        totalIterations += data[offset + 2];
+
+        // Only the leading coefficient color mode needs the coefficients themselves
+        const poly = colorModeRef.current === 'by_leading_coeff'
+          ? generatePolynomialByIndex(exactPolynomialIndex, positionSets, coefficientsRef.current)
+          : null;
+
+        for (let rootIndex = 0; rootIndex < batch.rootsPerPolynomial; rootIndex++) {
+          const relativeRe = data[offset + ROOT_RECORD_HEADER + rootIndex * 2];
+          const relativeIm = data[offset + ROOT_RECORD_HEADER + rootIndex * 2 + 1];
+          const x = originX + relativeRe * scale;
+          const y = originY - relativeIm * scale;
+          const re = relativeRe + originRe;
+          const im = relativeIm + originIm;
+
+          // Viewport culling: skip roots outside visible area
+          const isVisible = x >= minX && x <= maxX && y >= minY && y <= maxY;
+          if (!isVisible && !drawToMinimap) continue;
+
+          // Calculate hue using precomputed function (no branching in hot loop)
+          const hue = calculateHue(polynomialIndex, poly, rootIndex, processedInThisFrame);
+          const [r, g, b] = hueToRgb(hue);
+
+          if (drawToMinimap) {
+            accumulateHit(minimapPass.buffer, Math.floor((re + VIEWPORT_SIZE / 2) * minimapScale), Math.floor((VIEWPORT_SIZE / 2 - im) * minimapScale), 1, r, g, b);
+          }
+          if (!isVisible) continue;
 
-        const localPolyIndex = polynomialIndex % polynomialsPerCoeff;
-        const hueOffset = (localPolyIndex / polynomialsPerCoeff) * bandWidthDegrees * currentColorBandWidth;
+          // Count a 2x2 hit in the density buffer; brightness is applied at display time
+          accumulateHit(densityBuffer, Math.round(x) - 1, Math.round(y) - 1, 2, r, g, b);
+          if (layerBuffers) {
+            accumulateLayerHit(layerBuffers[Number(exactPolynomialIndex % layerModulus)], Math.round(x) - 1, Math.round(y) - 1, 2);
+          }
+          insertRoot(spatialIndex, relativeRe + indexShiftRe, relativeIm + indexShiftIm, exactPolynomialIndex, rootIndex);
 
-        return baseHue + hueOffset;
-      } else {
-        // Index-based mode
-        const frameSize = BATCH_SIZE * currentDegree;
-        const theoreticalRootIndex = polynomialIndex * currentDegree + rootIndex;
-        const indexWithinFrame = processedInThisFrame * currentDegree + rootIndex;
-        const hueLocal = (indexWithinFrame / frameSize) * 360;
-        const hueGlobal = (theoreticalRootIndex / effectiveRootsForColor) * 360;
-        return hueLocal * (1 - currentColorBandWidth) + hueGlobal * currentColorBandWidth;
+          processedRoots++;
+        }
       }
+      if (drawToMinimap) minimapPass.drawnBatches++;
+    };
+
+    let lastProgressSave = 0;
+    const saveProgress = (paused: boolean) => {
+      lastProgressSave = performance.now();
+      saveRenderProgress({ key: pointsKey, passes: refinementPasses, drawnBatches: currentFrame, paused });
     };
 
-    // Frame processing function (processes BATCH_SIZE polynomials per frame)
+    // Frame processing function (draws every batch that has arrived, in order)
     const processFrame = () => {
       // Check if this render has been cancelled (ID changed)
       if (renderingRef.current.id !== currentRenderId) return;
 
-      // Update progress
-      currentFrame++;
-      const progress = (currentFrame / framesToRender) * 100;
-
-      // Process BATCH_SIZE polynomials using sampling strategy
-      let processedInThisFrame = 0;
-      while (processedInThisFrame < BATCH_SIZE && currentPolynomialIndex < polynomialsToRender) {
-          // Calculate the actual polynomial index based on sampling mode
-          const polynomialIndex = getPolynomialIndex(
-            currentPolynomialIndex,
-            skipInterval,
-            samplingConfig,
-            totalPolynomials,
-            coefficients.length,
-            degree,
-            maxRoots
-          );
-
-          // Skip if index is invalid or we've gone past total polynomials
-          if (polynomialIndex < 0 || polynomialIndex >= totalPolynomials) {
-            currentPolynomialIndex++;
-            continue;
-          }
-
-          const poly = generatePolynomialByIndex(polynomialIndex, degreeRef.current, coefficientsRef.current);
-          const result = findRootsDurandKerner(poly, adaptiveMaxIterations);
-
-          if (result.converged) {
-            totalConverged++;
-            totalIterations += result.iterations;
-
-            // Draw roots immediately on offscreen canvas
-            result.roots.forEach((root, rootIndex) => {
-              const x = toCanvasX(root.re);
-              const y = toCanvasY(root.im);
+      // Paused: resumeRender calls this again; batches in flight wait in completedBatches
+      if (pausedRef.current) {
+        resumeRenderRef.current = processFrame;
+        saveProgress(true);
+        return;
+      }
 
-              // Viewport culling: skip roots outside visible area
-              if (x < minX || x > maxX || y < minY || y > maxY) return;
+      submitBatches();
 
-              // Calculate hue using precomputed function (no branching in hot loop)
-              const hue = calculateHue(polynomialIndex, poly, rootIndex, processedInThisFrame);
+      let drewBatch = false;
+      const minimapBatches = minimapPass.drawnBatches;
+      while (completedBatches.has(currentFrame) && currentFrame !== pauseAtBatch) {
+        drawBatch(completedBatches.get(currentFrame)!, currentFrame);
+        completedBatches.delete(currentFrame);
+        currentFrame++;
+        drewBatch = true;
+      }
+      submitBatches();
 
-              // Simple solid color rendering (most performant)
-              // Round coordinates to integer pixels for faster rendering
-              offscreenCtx.fillStyle = `hsla(${hue}, 100%, 60%, ${transparencyRef.current})`;
-              offscreenCtx.fillRect(Math.round(x) - 1, Math.round(y) - 1, 2, 2);
+      if (currentFrame === pauseAtBatch && currentFrame < totalBatches) {
+        pauseAtBatch = null;
+        pausedRef.current = true;
+        setIsPaused(true);
+      }
+      // (While catching up to a restored pause, the saved progress stays as it was)
+      if (pauseAtBatch === null && performance.now() - lastProgressSave > RENDER_PROGRESS_SAVE_INTERVAL) {
+        saveProgress(false);
+      }
 
-              processedRoots++;
-            });
-          }
+      const progress = (currentFrame / totalBatches) * 100;
 
-          processedInThisFrame++;
-          currentPolynomialIndex++;
-        }
+      if (drewBatch) {
+        updateOffscreenFromDensity();
+        if (minimapPass.drawnBatches > minimapBatches) updateMinimapImage();
 
-      // Update root count and progress
-      setRootCount(processedRoots);
-      setRenderProgress(progress);
-      setCurrentRenderFrame(currentFrame);
+        // Update root count and progress
+        setRootCount(processedRoots);
+        setRenderProgress(progress);
+        setCurrentRenderFrame(currentFrame);
 
-      // Redraw overlay with current values (will use snapshot if interactive transform is active)
-      redrawCoordinateOverlay(progress, currentFrame, true, processedRoots, theoreticalTotalRoots);
+        // Redraw overlay with current values (will use snapshot if interactive transform is active)
+        redrawCoordinateOverlay(progress, currentFrame, true, processedRoots, theoreticalTotalRoots);
+      }
 
       // Continue or finish
-      if (currentPolynomialIndex < polynomialsToRender) {
+      if (currentFrame < totalBatches) {
         renderingRef.current.animationId = requestAnimationFrame(processFrame);
       } else {
         // Rendering complete
         setRenderProgress(100);
+        saveProgress(false);
 
         // Final redraw without progress indicator (pass false for isRendering)
         redrawCoordinateOverlay(100, currentFrame, false, processedRoots, theoreticalTotalRoots);
@@ -846,13 +1563,24 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
         setIsRendering(false);
 
         // Report final convergence stats
-        if (onConvergenceStats) {
-          onConvergenceStats({
-            totalRoots: processedRoots,
-            convergedRoots: totalConverged,
-            convergenceRate: totalPolynomials > 0 ? (totalConverged / totalPolynomials) * 100 : 0,
-            avgIterations: totalPolynomials > 0 ? totalIterations / totalPolynomials : 0,
-          });
+        const stats: ConvergenceStats = {
+          totalRoots: processedRoots,
+          convergedRoots: totalConverged,
+          convergenceRate: approxTotalPolynomials > 0 ? (totalConverged / approxTotalPolynomials) * 100 : 0,
+          avgIterations: approxTotalPolynomials > 0 ? totalIterations / approxTotalPolynomials : 0,
+          warmStartedPolynomials: totalWarmStarted,
+        };
+        console.log(`[Fractal Render Complete]
+  Batches from the root store: ${cachedBatches.toLocaleString()} of ${(totalBatches - firstBatch).toLocaleString()} (${formatBytes(rootStore.bytes)} stored)
+  Batches from the persistent cache: ${rootCache.hash ? persistedBatches.toLocaleString() : 'off'}
+  Converged polynomials: ${totalConverged.toLocaleString()}
+  Warm-started polynomials: ${totalWarmStarted.toLocaleString()}
+  Avg iterations per converged polynomial: ${totalConverged > 0 ? (totalIterations / totalConverged).toFixed(1) : '-'}`);
+        onConvergenceStats?.(stats);
+
+        if (rootCache.hash) {
+          evictRootCache(rootCacheSettings.budgetBytes, rootCache.hash)
+            .catch((error) => console.warn('[Root Cache] Eviction failed:', error));
         }
 
         onRenderComplete?.();
@@ -863,6 +1591,32 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     processFrame();
   };
 
+  const pauseRender = () => {
+    if (!isRendering || renderModeRef.current === 'newton_basin') return;
+    pausedRef.current = true;
+    setIsPaused(true);
+  };
+
+  const resumeRender = () => {
+    pausedRef.current = false;
+    setIsPaused(false);
+    const resume = resumeRenderRef.current;
+    resumeRenderRef.current = null;
+    resume?.();
+  };
+
+  // Next refinement pass, drawn on top of the current image once the render has finished
+  const refineRender = () => {
+    if (isRendering || refinement.passes >= refinement.limit || renderModeRef.current === 'newton_basin') return;
+    renderFractal(true);
+  };
+
+  // Batches the main render draws for a plan, refinement passes included (exports match the screen)
+  const getRenderedBatchCount = (plan: BatchPlan): number => {
+    const passes = refinementRef.current.key === JSON.stringify(getPointsKey(plan)) ? refinementRef.current.passes : 0;
+    return plan.framesToRender * (passes + 1);
+  };
+
   const toComplexCoord = (canvasX: number, canvasY: number): Complex => {
     const canvas = canvasRef.current;
     if (!canvas) return { re: 0, im: 0 };
@@ -891,6 +1645,36 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     return null;
   };
 
+  const isDragonPointAt = (canvasX: number, canvasY: number): boolean => {
+    const canvas = canvasRef.current;
+    if (!canvas || renderMode !== 'dragon') return false;
+
+    const baseScale = Math.min(canvas.width / VIEWPORT_SIZE, canvas.height / VIEWPORT_SIZE);
+    const scale = baseScale * zoom;
+    const hitRadius = isMobile ? Math.min(canvas.width, canvas.height) * 0.04 : 15;
+    const x = canvas.width / 2 + (dragonPoint.re - offsetX) * scale;
+    const y = canvas.height / 2 - (dragonPoint.im - offsetY) * scale;
+    return Math.sqrt((canvasX - x) ** 2 + (canvasY - y) ** 2) < hitRadius;
+  };
+
+  // Move the dragon set point to a canvas position, snapped like coefficients
+  const moveDragonPoint = (canvasX: number, canvasY: number): Complex => {
+    const rawCoord = toComplexCoord(canvasX, canvasY);
+    const minCanvasSize = Math.min(canvasSize.width, canvasSize.height);
+    const snapped = snapToGrid(rawCoord.re, rawCoord.im, gridConfig, zoom, minCanvasSize);
+    const point = { re: snapped.re, im: snapped.im };
+    onDragonPointChange(point);
+    return point;
+  };
+
+  // A press that moves less than this (canvas pixels) is a click, not a pan
+  const CLICK_TOLERANCE = 3;
+  // Length of the zoom into a shift-dragged rectangle (ms)
+  const ZOOM_RECT_DURATION = 400;
+
+  // How far from a dot (canvas pixels) a click still selects it
+  const getRootHitRadius = (): number => 6 * (window.devicePixelRatio || 1);
+
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -899,13 +1683,32 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
     const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
 
+    // Clicking the polynomial strip pins the hovered polynomial
+    const dpr = window.devicePixelRatio || 1;
+    const stripX = canvas.width - 2 * dpr * 37.8;
+    if (canvas.width > canvas.height && x >= stripX && hoveredPolynomialIndex !== null) {
+      setSelectedPolynomialIndex(hoveredPolynomialIndex);
+      return;
+    }
+
+    // Shift-drag selects a rectangle to zoom into
+    if (e.shiftKey) {
+      stopFlight();
+      setZoomRect({ x0: x, y0: y, x1: x, y1: y });
+      return;
+    }
+
     const index = getCoeffAtPoint(x, y);
     if (index !== null) {
       // Dragging a coefficient
       setDraggedIndex(index);
       onCoefficientSelect?.(index);
+      onCoefficientDragStart?.();
+    } else if (isDragonPointAt(x, y)) {
+      setIsDraggingDragonPoint(true);
     } else {
       // Start panning - create snapshot for interactive preview
+      stopFlight();
       createSnapshot();
       setIsPanning(true);
       setPanStart({ x, y, offsetX, offsetY });
@@ -917,6 +1720,97 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     onResetView();
   };
 
+  // Reset accumulated hit counts and the tone-mapped image
+  const clearAccumulation = () => {
+    if (densityBufferRef.current) {
+      clearDensityBuffer(densityBufferRef.current);
+    }
+    if (modLayerBuffersRef.current) {
+      clearModLayerBuffers(modLayerBuffersRef.current);
+    }
+    // Size index cells to the click radius at the current zoom, around the view center
+    const canvas = canvasRef.current;
+    if (canvas) {
+      const scale = Math.min(canvas.width / VIEWPORT_SIZE, canvas.height / VIEWPORT_SIZE) * zoom;
+      clearRootSpatialIndex(getRootSpatialIndex(), getRootHitRadius() / scale, offsetX, offsetY);
+    }
+    const offscreenCanvas = offscreenCanvasRef.current;
+    const offscreenCtx = offscreenCanvas?.getContext('2d', { alpha: true });
+    offscreenCtx?.clearRect(0, 0, offscreenCanvas.width, offscreenCanvas.height);
+  };
+
+  // Tone-map the density buffer into the offscreen canvas
+  const updateOffscreenFromDensity = () => {
+    // In Newton-basin mode the offscreen canvas holds the basin image instead
+    if (renderModeRef.current === 'newton_basin') return;
+    const offscreenCanvas = offscreenCanvasRef.current;
+    const densityBuffer = densityBufferRef.current;
+    if (!offscreenCanvas || !densityBuffer || densityBuffer.width === 0 || densityBuffer.height === 0) return;
+
+    const offscreenCtx = offscreenCanvas.getContext('2d', { alpha: true });
+    if (!offscreenCtx) return;
+
+    const imageData = offscreenCtx.createImageData(densityBuffer.width, densityBuffer.height);
+    const layers = modLayersRef.current;
+    const layerBuffers = modLayerBuffersRef.current;
+    if (layers.enabled && layerBuffers?.length === layers.modulus) {
+      const visibleResidues = layers.layers.map((_, residue) => residue).filter((residue) => isModLayerVisible(layers, residue));
+      renderModLayersToImageData(layerBuffers, layers, visibleResidues, toneMappingRef.current, imageData);
+    } else {
+      renderDensityToImageData(densityBuffer, toneMappingRef.current, imageData);
+    }
+    offscreenCtx.putImageData(imageData, 0, 0);
+  };
+
+  // Everything that decides which points a render's batches hold, but not the view
+  const getPointsKey = (plan: BatchPlan) => ({
+    batchSize: BATCH_SIZE,
+    degree,
+    coefficients: coefficientsRef.current,
+    positionSets,
+    samplingConfig,
+    maxRoots,
+    skipInterval: plan.skipInterval.toString(),
+    polynomialsToRender: plan.polynomialsToRender.toString(),
+    maxIterations: plan.adaptiveMaxIterations,
+    rootSolver,
+    familyTransform,
+    renderMode,
+    bohemian: plan.bohemian,
+    evaluationPoint: plan.evaluationPoint,
+  });
+
+  // Stored batches are only valid for the same points and precision window
+  const getRootStoreKey = (plan: BatchPlan): string => JSON.stringify({
+    ...getPointsKey(plan),
+    precision: plan.precision,
+  });
+
+  // Points and colors, but not the view: a minimap pass stays valid while only the view changes
+  const getMinimapKey = (plan: BatchPlan, size: number): string => JSON.stringify({
+    ...getPointsKey(plan),
+    size,
+    colorMode: colorModeRef.current,
+    colorBandWidth: colorBandWidthRef.current,
+  });
+
+  // True when a render of the current view would draw every root from the root store in
+  // its first frame, so gestures can show exact redraws instead of the scaled snapshot
+  const canRedrawFromStore = (): boolean => {
+    const store = rootStoreRef.current;
+    return autoClearCanvas && autoRestart && renderMode !== 'newton_basin' &&
+      isRootStoreComplete(store) && store.storedRoots <= EXACT_REDRAW_MAX_ROOTS;
+  };
+
+  // Tone-map the minimap pass for display
+  const updateMinimapImage = () => {
+    const pass = minimapPassRef.current;
+    if (!pass) return;
+    const imageData = new ImageData(pass.buffer.width, pass.buffer.height);
+    renderDensityToImageData(pass.buffer, toneMappingRef.current, imageData);
+    setMinimapImage(imageData);
+  };
+
   // Helper function to create snapshot of offscreen canvas before interactive transform
   const createSnapshot = () => {
     const offscreenCanvas = offscreenCanvasRef.current;
@@ -965,10 +1859,127 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     // Trigger immediate redraw to show updated offscreen canvas
     redrawCoordinateOverlay();
   };
+  // Latest version for callbacks that outlive a render (flyTo's last frame)
+  const endInteractiveTransformRef = useRef(endInteractiveTransform);
+  endInteractiveTransformRef.current = endInteractiveTransform;
+
+  // Animate pan and zoom to a view (see interpolateView)
+  const flyToView = (view: View, duration: number = FLY_TO_DURATION) => {
+    stopFlight();
+    const from = { offsetX, offsetY, zoom };
+    // One snapshot for the whole flight; every frame only re-transforms it
+    if (!isInteractiveTransform) {
+      createSnapshot();
+    }
+
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = duration > 0 ? (now - start) / duration : 1;
+      const current = t < 1 ? interpolateView(from, view, t) : view;
+      onOffsetChange(current.offsetX, current.offsetY);
+      onZoomChange(current.zoom);
+
+      if (t < 1) {
+        flightRef.current = requestAnimationFrame(step);
+      } else {
+        // End on the next frame, once the final view has reached the props
+        flightRef.current = requestAnimationFrame(() => {
+          flightRef.current = null;
+          endInteractiveTransformRef.current();
+        });
+      }
+    };
+    flightRef.current = requestAnimationFrame(step);
+  };
+
+  // Stop a running flyTo, leaving the view where it is
+  const stopFlight = () => {
+    if (flightRef.current !== null) {
+      cancelAnimationFrame(flightRef.current);
+      flightRef.current = null;
+    }
+  };
+
+  // Render the Newton basins of one polynomial into the offscreen canvas, tile by tile.
+  // Shares the render id with root rendering so either cancels the other.
+  const startBasinRendering = (polynomialIndex: bigint) => {
+    const canvas = canvasRef.current;
+    const offscreenCanvas = offscreenCanvasRef.current;
+    if (!canvas || !offscreenCanvas) return;
+    const offscreenCtx = offscreenCanvas.getContext('2d', { alpha: true });
+    if (!offscreenCtx) return;
 
+    if (renderingRef.current.animationId) {
+      cancelAnimationFrame(renderingRef.current.animationId);
+    }
+    workerPoolRef.current?.cancel(renderingRef.current.id);
+    const currentRenderId = renderingRef.current.id + 1;
+    renderingRef.current = { id: currentRenderId };
+
+    const totalPolynomials = getTotalPolynomials(positionSets);
+    const index = polynomialIndex < totalPolynomials ? polynomialIndex : totalPolynomials - 1n;
+    const poly = applyFamilyTransform(familyTransform, generatePolynomialByIndex(index, positionSets, coefficients));
+    const { roots, converged } = findRoots(rootSolver, poly, getAdaptiveMaxIterations(poly.length - 1));
+
+    // Same viewport transform as the root scatter
+    const baseScale = Math.min(canvas.width / VIEWPORT_SIZE, canvas.height / VIEWPORT_SIZE);
+    const scale = baseScale * zoom;
+    const toComplex = (x: number, y: number): Complex => ({
+      re: (x - canvas.width / 2) / scale + offsetX,
+      im: -(y - canvas.height / 2) / scale + offsetY,
+    });
+
+    // Coarse pass for quick feedback, then one Newton evaluation per CSS pixel
+    const dpr = window.devicePixelRatio || 1;
+    const tiles = [
+      ...getBasinTiles(canvas.width, canvas.height, BASIN_COARSE_BLOCK_SIZE),
+      ...getBasinTiles(canvas.width, canvas.height, Math.max(1, Math.round(dpr))),
+    ];
+    const totalPixels = canvas.width * canvas.height * 2;
+    let nextTile = 0;
+    let processedPixels = 0;
+
+    console.log(`[Newton Basin Start]
+  Polynomial index: ${index.toLocaleString()}
+  Degree: ${poly.length - 1}
+  Roots converged: ${converged}
+  Tiles: ${tiles.length.toLocaleString()}`);
+
+    offscreenCtx.clearRect(0, 0, offscreenCanvas.width, offscreenCanvas.height);
+    setIsRendering(true);
+
+    const FRAME_BUDGET_MS = 12;
+    const processBasinFrame = () => {
+      if (renderingRef.current.id !== currentRenderId) return;
+
+      const frameStart = performance.now();
+      while (nextTile < tiles.length && performance.now() - frameStart < FRAME_BUDGET_MS) {
+        const tile = tiles[nextTile++];
+        const imageData = offscreenCtx.createImageData(tile.width, tile.height);
+        renderBasinTile(poly, roots, tile, toComplex, BASIN_MAX_ITERATIONS, imageData);
+        offscreenCtx.putImageData(imageData, tile.x, tile.y);
+        processedPixels += tile.width * tile.height;
+      }
+
+      const progress = (processedPixels / totalPixels) * 100;
+      setRenderProgress(progress);
+
+      if (nextTile < tiles.length) {
+        redrawCoordinateOverlay(progress, undefined, true, processedPixels, BigInt(totalPixels));
+        renderingRef.current.animationId = requestAnimationFrame(processBasinFrame);
+      } else {
+        setRenderProgress(100);
+        redrawCoordinateOverlay(100, undefined, false);
+        setIsRendering(false);
+        onRenderComplete?.();
+      }
+    };
+
+    renderingRef.current.animationId = requestAnimationFrame(processBasinFrame);
+  };
 
   // Start async overlay rendering when hoveredPolynomialIndex changes
-  const startOverlayRendering = (polynomialIndex: number) => {
+  const startOverlayRendering = (polynomialIndex: bigint) => {
     // Cancel any previous overlay rendering
     overlayRenderingRef.current.id++;
     if (overlayRenderingRef.current.animationId) {
@@ -995,19 +2006,29 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
 
     const baseScale = Math.min(canvas.width / VIEWPORT_SIZE, canvas.height / VIEWPORT_SIZE);
     const scale = baseScale * zoom;
-    const toCanvasX = (re: number) => canvas.width / 2 + (re - offsetX) * scale;
-    const toCanvasY = (im: number) => canvas.height / 2 - (im - offsetY) * scale;
 
     // Calculate polynomial range to render
-    const totalPolynomials = getTotalPolynomials(degree, coefficients.length);
-    const startIndex = Math.max(0, polynomialIndex - polynomialNeighborRange);
-    const endIndex = Math.min(totalPolynomials - 1, polynomialIndex + polynomialNeighborRange);
-    const totalToRender = endIndex - startIndex + 1;
-
-    const adaptiveMaxIterations = getAdaptiveMaxIterations(degree);
+    const totalPolynomials = getTotalPolynomials(positionSets);
+    const neighborRange = BigInt(polynomialNeighborRange);
+    const startIndex = polynomialIndex > neighborRange ? polynomialIndex - neighborRange : 0n;
+    const lastIndex = totalPolynomials - 1n;
+    const endIndex = polynomialIndex + neighborRange < lastIndex ? polynomialIndex + neighborRange : lastIndex;
+    const totalToRender = Number(endIndex - startIndex + 1n);
+
+    const adaptiveMaxIterations = getAdaptiveMaxIterations(getTransformedDegree(familyTransform, degree));
     const OVERLAY_BATCH_SIZE = 8; // Process 8 polynomials per frame
 
+    // In Gray-code sampling the strip position is a Gray-code position, so the
+    // neighbourhood consists of polynomials differing in one coefficient per step
+    const isGrayOrder = samplingConfig.mode === 'gray';
+    const isDragon = renderMode === 'dragon';
+    const polynomialAt = (position: bigint) => isGrayOrder
+      ? getMixedRadixGrayIndex(position, getPositionRadices(positionSets))
+      : position;
+
     let currentPolyIdx = startIndex;
+    // Neighbouring indices are one step apart - each polynomial warm-starts from the previous one
+    let previousRoots: Complex[] | null = null;
 
     // Clear and draw initial overlay
     overlayCtx.clearRect(0, 0, overlayCanvas.width, overlayCanvas.height);
@@ -1021,13 +2042,33 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       // Process batch
       let processedInThisFrame = 0;
       while (processedInThisFrame < OVERLAY_BATCH_SIZE && currentPolyIdx <= endIndex) {
-        const poly = generatePolynomialByIndex(currentPolyIdx, degree, coefficients);
-        const result = findRootsDurandKerner(poly, adaptiveMaxIterations);
+        const coeffs = generatePolynomialByIndex(polynomialAt(currentPolyIdx), positionSets, coefficients);
+        const poly = applyFamilyTransform(familyTransform, coeffs);
+        // In dragon mode the neighbourhood is shown by its values P(z) instead of its roots,
+        // in Bohemian mode by the eigenvalues of the neighbouring matrices
+        let result: { roots: Complex[]; converged: boolean };
+        if (isDragon) {
+          result = { roots: [evaluatePolynomial(poly, dragonPoint)], converged: true };
+        } else if (renderMode === 'bohemian') {
+          const eigen = getBohemianEigenvalues({ structure: matrixStructure, size: degree }, coeffs, adaptiveMaxIterations);
+          result = { roots: eigen.eigenvalues, converged: eigen.converged };
+        } else {
+          result = findRootsWithWarmStart(rootSolver, poly, adaptiveMaxIterations, previousRoots);
+        }
+        previousRoots = result.converged ? result.roots : null;
 
         if (result.converged) {
-          result.roots.forEach((root) => {
-            const x = toCanvasX(root.re);
-            const y = toCanvasY(root.im);
+          // At deep zoom, polish like the main render so the dots stay on the scatter
+          const isPolished = zoom >= EXTENDED_PRECISION_ZOOM && !isDragon && renderMode !== 'bohemian';
+          const roots = isPolished
+            ? polishRootsDD(poly, result.roots).map((root) => ({
+              re: ddToNumber(ddSubtract(root.re, ddFromNumber(offsetX))),
+              im: ddToNumber(ddSubtract(root.im, ddFromNumber(offsetY))),
+            }))
+            : result.roots.map((root) => ({ re: root.re - offsetX, im: root.im - offsetY }));
+          roots.forEach((root) => {
+            const x = canvas.width / 2 + root.re * scale;
+            const y = canvas.height / 2 - root.im * scale;
 
             // Draw white opaque dots
             overlayCtx.fillStyle = "rgba(255, 255, 255, 1.0)";
@@ -1040,7 +2081,7 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       }
 
       // Update progress
-      const progress = ((currentPolyIdx - startIndex) / totalToRender) * 100;
+      const progress = (Number(currentPolyIdx - startIndex) / totalToRender) * 100;
       setOverlayRenderProgress(progress);
 
       // Continue or finish
@@ -1085,7 +2126,7 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
   };
 
   // Helper function to redraw the coordinate overlay
-  const redrawCoordinateOverlay = (currentProgress?: number, currentFrame?: number, currentIsRendering?: boolean, currentRootCount?: number, currentTheoreticalMax?: number) => {
+  const redrawCoordinateOverlay = (currentProgress?: number, currentFrame?: number, currentIsRendering?: boolean, currentRootCount?: number, currentTheoreticalMax?: bigint) => {
     const canvas = canvasRef.current;
     const offscreenCanvas = offscreenCanvasRef.current;
     if (!canvas || !offscreenCanvas) return;
@@ -1104,8 +2145,8 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     ctx.fillStyle = "#0a0a14";
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-    // Use snapshot only during interactive transform
-    const useSnapshot = isInteractiveTransform && snapshotCanvasRef.current && snapshotParamsRef.current;
+    // Use snapshot only during interactive transform, and only while the roots are not all at hand
+    const useSnapshot = isInteractiveTransform && snapshotCanvasRef.current && snapshotParamsRef.current && !canRedrawFromStore();
 
     if (useSnapshot) {
       const snapshot = snapshotCanvasRef.current;
@@ -1134,38 +2175,10 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       // SECOND: Draw current offscreen canvas on top to show rendering progress
       // This shows new roots being added in real-time during the gesture
       // Both canvases have transparent backgrounds, so they blend naturally
-      const currentGamma = gammaCorrectionRef.current;
-      if (currentGamma !== 0) {
-        // Create temporary canvas for gamma-corrected offscreen
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = offscreenCanvas.width;
-        tempCanvas.height = offscreenCanvas.height;
-        const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
-        if (tempCtx) {
-          tempCtx.drawImage(offscreenCanvas, 0, 0);
-          applyGammaCorrection(tempCtx, tempCanvas.width, tempCanvas.height, currentGamma);
-          ctx.drawImage(tempCanvas, 0, 0);
-        }
-      } else {
-        ctx.drawImage(offscreenCanvas, 0, 0);
-      }
+      ctx.drawImage(offscreenCanvas, 0, 0);
     } else {
-      const currentGamma = gammaCorrectionRef.current;
-      // Normal rendering: draw accumulated roots from offscreen canvas
-      if (currentGamma !== 0) {
-        // Create temporary canvas for gamma-corrected offscreen
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = offscreenCanvas.width;
-        tempCanvas.height = offscreenCanvas.height;
-        const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
-        if (tempCtx) {
-          tempCtx.drawImage(offscreenCanvas, 0, 0);
-          applyGammaCorrection(tempCtx, tempCanvas.width, tempCanvas.height, currentGamma);
-          ctx.drawImage(tempCanvas, 0, 0);
-        }
-      } else {
-        ctx.drawImage(offscreenCanvas, 0, 0);
-      }
+      // Normal rendering: draw tone-mapped density image from offscreen canvas
+      ctx.drawImage(offscreenCanvas, 0, 0);
     }
 
     // Helper functions for coordinate transformation
@@ -1328,6 +2341,33 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       ctx.stroke();
     });
 
+    // Draw the dragon set point z as a ring with a cross
+    if (renderModeRef.current === 'dragon') {
+      const point = dragonPointRef.current;
+      const x = toCanvasX(point.re);
+      const y = toCanvasY(point.im);
+      const radius = isDraggingDragonPoint ? baseRadius * 1.4 : baseRadius;
+
+      const traceMarker = () => {
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, 2 * Math.PI);
+        ctx.moveTo(x - radius * 1.6, y);
+        ctx.lineTo(x + radius * 1.6, y);
+        ctx.moveTo(x, y - radius * 1.6);
+        ctx.lineTo(x, y + radius * 1.6);
+      };
+
+      // Black outline, then yellow so z stands apart from the white coefficient rings
+      ctx.strokeStyle = 'black';
+      ctx.lineWidth = 5;
+      traceMarker();
+      ctx.stroke();
+      ctx.strokeStyle = '#facc15';
+      ctx.lineWidth = 3;
+      traceMarker();
+      ctx.stroke();
+    }
+
     // Mouse coordinates are now drawn on overlay canvas via drawMouseCoordinates()
 
     // Draw polynomial strip border (thin vertical line) - only for landscape
@@ -1344,6 +2384,18 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       ctx.moveTo(stripX, 0);
       ctx.lineTo(stripX, canvas.height);
       ctx.stroke();
+
+      // Mark the pinned polynomial
+      if (selectedPolynomialIndex !== null) {
+        const totalPolynomials = getTotalPolynomials(positionSets);
+        const markerY = (Number(selectedPolynomialIndex) / Number(totalPolynomials)) * canvas.height;
+        ctx.strokeStyle = "rgba(255, 255, 255, 0.8)";
+        ctx.lineWidth = 2 * dpr;
+        ctx.beginPath();
+        ctx.moveTo(stripX, markerY);
+        ctx.lineTo(stripX + 8 * dpr, markerY);
+        ctx.stroke();
+      }
     }
 
     // Draw progress indicator in bottom-right corner
@@ -1359,7 +2411,13 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       ctx.textBaseline = "bottom";
 
       // Format numbers with K/M/B suffixes or scientific notation for very large numbers
-      const formatNumber = (n: number): string => {
+      const formatNumber = (value: number | bigint): string => {
+        if (typeof value === 'bigint' && value >= 1_000_000_000_000_000n) {
+          // Mantissa from the decimal digits so counts beyond 2^53 (or 1e308) stay exact
+          const digits = value.toString();
+          return `${digits[0]}.${digits.slice(1, 3)}e+${digits.length - 1}`;
+        }
+        const n = Number(value);
         if (n >= 1e15) return n.toExponential(2); // 1.0e+15 and above
         if (n >= 1_000_000_000_000) return (n / 1_000_000_000_000).toFixed(1) + 'T';
         if (n >= 1_000_000_000) return (n / 1_000_000_000).toFixed(1) + 'B';
@@ -1393,6 +2451,13 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     const screenX = e.clientX;
     const screenY = e.clientY;
 
+    if (zoomRect) {
+      setZoomRect({ ...zoomRect, x1: x, y1: y });
+      const coord = toComplexCoord(x, y);
+      updateTooltip(screenX, screenY, coord.re, coord.im);
+      return;
+    }
+
     // Check if hovering over polynomial strip
     const dpr = window.devicePixelRatio || 1;
     const isLandscape = canvas.width > canvas.height;
@@ -1400,15 +2465,13 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     const stripWidth = STRIP_WIDTH_CM * dpr * 37.8;
     const stripX = canvas.width - stripWidth;
 
-    if (isLandscape && x >= stripX && !draggedIndex && !isPanning) {
+    if (isLandscape && x >= stripX && !draggedIndex && !isDraggingDragonPoint && !isPanning) {
       // Hovering over polynomial strip - calculate which polynomial
-      const totalPolynomials = getTotalPolynomials(degree, coefficients.length);
+      const totalPolynomials = getTotalPolynomials(positionSets);
 
       // Map Y position to polynomial index
-      const polynomialIndex = Math.min(
-        totalPolynomials - 1,
-        Math.floor((y / canvas.height) * totalPolynomials)
-      );
+      const stripIndex = scaleBigInt(totalPolynomials, y / canvas.height);
+      const polynomialIndex = stripIndex < totalPolynomials ? stripIndex : totalPolynomials - 1n;
 
       if (polynomialIndex !== hoveredPolynomialIndex) {
         setHoveredPolynomialIndex(polynomialIndex);
@@ -1439,6 +2502,10 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
       updateTooltip(screenX, screenY, snapped.re, snapped.im);
 
       onCoefficientsChange(newCoeffs);
+    } else if (isDraggingDragonPoint) {
+      setMousePos({ x, y });
+      const point = moveDragonPoint(x, y);
+      updateTooltip(screenX, screenY, point.re, point.im);
     } else if (isPanning && panStart) {
       // Panning the view - show mouse coordinates
       const baseScale = Math.min(canvas.width / VIEWPORT_SIZE, canvas.height / VIEWPORT_SIZE);
@@ -1470,15 +2537,52 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     }
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+
+    // Zoom so the selected rectangle fills the canvas (a click without a drag does nothing)
+    if (zoomRect) {
+      setZoomRect(null);
+      const width = Math.abs(zoomRect.x1 - zoomRect.x0);
+      const height = Math.abs(zoomRect.y1 - zoomRect.y0);
+      if (canvas && width >= CLICK_TOLERANCE && height >= CLICK_TOLERANCE) {
+        const center = toComplexCoord((zoomRect.x0 + zoomRect.x1) / 2, (zoomRect.y0 + zoomRect.y1) / 2);
+        const newZoom = zoom * Math.min(canvas.width / width, canvas.height / height);
+        flyToView({ offsetX: center.re, offsetY: center.im, zoom: newZoom }, ZOOM_RECT_DURATION);
+      }
+      return;
+    }
+
+    // A click on empty canvas places z in dragon mode and inspects the nearest dot otherwise
+    if (canvas && isPanning && panStart) {
+      const rect = canvas.getBoundingClientRect();
+      const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
+      const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
+      if (Math.hypot(x - panStart.x, y - panStart.y) < CLICK_TOLERANCE) {
+        if (renderMode === 'dragon') {
+          moveDragonPoint(x, y);
+        } else if (renderMode !== 'newton_basin' && rootIndexRef.current) {
+          // Query relative to the index origin without going through absolute coordinates
+          const scale = Math.min(canvas.width / VIEWPORT_SIZE, canvas.height / VIEWPORT_SIZE) * zoom;
+          const index = rootIndexRef.current;
+          const re = (x - canvas.width / 2) / scale + (offsetX - index.originRe);
+          const im = -(y - canvas.height / 2) / scale + (offsetY - index.originIm);
+          setInspectedRoot(findNearestRoot(index, re, im, getRootHitRadius() / scale));
+        }
+      }
+    }
+
     setDraggedIndex(null);
+    setIsDraggingDragonPoint(false);
     setIsPanning(false);
     setPanStart(null);
     endInteractiveTransform();
   };
 
   const handleMouseLeave = () => {
+    setZoomRect(null);
     setDraggedIndex(null);
+    setIsDraggingDragonPoint(false);
     setHoveredIndex(null);
     setMousePos(null);
     setIsPanning(false);
@@ -1499,6 +2603,8 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
     if (isMouseWheel) {
       e.preventDefault();
 
+      stopFlight();
+
       // Create snapshot before first zoom
       if (!isInteractiveTransform) {
         createSnapshot();
@@ -1540,6 +2646,7 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
 
     if (e.touches.length === 2) {
       // Two-finger pinch gesture - create snapshot
+      stopFlight();
       createSnapshot();
       const touch1 = e.touches[0];
       const touch2 = e.touches[1];
@@ -1563,9 +2670,14 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
         // Dragging a coefficient
         setDraggedIndex(index);
         onCoefficientSelect?.(index);
+        onCoefficientDragStart?.();
+        e.preventDefault();
+      } else if (isDragonPointAt(x, y)) {
+        setIsDraggingDragonPoint(true);
         e.preventDefault();
       } else {
         // Start panning - create snapshot
+        stopFlight();
         createSnapshot();
         setIsPanning(true);
         setPanStart({ x, y, offsetX, offsetY });
@@ -1618,6 +2730,11 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
         updateTooltip(screenX, screenY, snapped.re, snapped.im);
         onCoefficientsChange(newCoeffs);
         e.preventDefault();
+      } else if (isDraggingDragonPoint) {
+        setMousePos({ x, y });
+        const point = moveDragonPoint(x, y);
+        updateTooltip(screenX, screenY, point.re, point.im);
+        e.preventDefault();
       } else if (isPanning && panStart) {
         // Panning the view
         const baseScale = Math.min(canvas.width / VIEWPORT_SIZE, canvas.height / VIEWPORT_SIZE);
@@ -1638,6 +2755,7 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
 
   const handleTouchEnd = () => {
     setDraggedIndex(null);
+    setIsDraggingDragonPoint(false);
     setMousePos(null);
     setIsPanning(false);
     setPanStart(null);
@@ -1671,6 +2789,62 @@ export const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(({
         onTouchMove={handleTouchMove}
         onTouchEnd={handleTouchEnd}
       />
+      {inspection && (
+        <RootInspector
+          polynomialIndex={inspection.polynomialIndex}
+          rootNumber={inspection.rootNumber}
+          coefficients={coefficients}
+          paletteIndices={inspection.paletteIndices}
+          roots={inspection.roots}
+          converged={inspection.converged}
+          iterations={inspection.iterations}
+          isMatrix={renderMode === 'bohemian'}
+          highlight={highlightInspected}
+          onHighlightChange={setHighlightInspected}
+          onClose={() => setInspectedRoot(null)}
+        />
+      )}
+      {!isMobile && renderMode !== 'newton_basin' && (
+        <Minimap
+          image={minimapImage}
+          viewportSize={VIEWPORT_SIZE}
+          offsetX={offsetX}
+          offsetY={offsetY}
+          viewWidth={(canvasSize.width * VIEWPORT_SIZE) / (Math.min(canvasSize.width, canvasSize.height) * zoom)}
+          viewHeight={(canvasSize.height * VIEWPORT_SIZE) / (Math.min(canvasSize.width, canvasSize.height) * zoom)}
+          onPanStart={() => {
+            stopFlight();
+            if (!isInteractiveTransform) {
+              createSnapshot();
+            }
+          }}
+          onPan={onOffsetChange}
+          onPanEnd={endInteractiveTransform}
+        />
+      )}
+      {renderMode !== 'newton_basin' && (
+        <RenderControls
+          isRendering={isRendering}
+          isPaused={isPaused}
+          refinementPasses={refinement.passes}
+          refinementLimit={refinement.limit}
+          onPause={pauseRender}
+          onResume={resumeRender}
+          onRefine={refineRender}
+        />
+      )}
+      {/* Shift-drag zoom rectangle (canvas pixels are device pixels) */}
+      {zoomRect && (
+        <div
+          className="absolute pointer-events-none border border-yellow-400 bg-yellow-400/10"
+          style={{
+            left: Math.min(zoomRect.x0, zoomRect.x1) / (window.devicePixelRatio || 1),
+            top: Math.min(zoomRect.y0, zoomRect.y1) / (window.devicePixelRatio || 1),
+            width: Math.abs(zoomRect.x1 - zoomRect.x0) / (window.devicePixelRatio || 1),
+            height: Math.abs(zoomRect.y1 - zoomRect.y0) / (window.devicePixelRatio || 1),
+          }}
+        />
+      )}
       {/* Coordinate tooltip */}
       {tooltip && (
         <div
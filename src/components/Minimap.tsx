@@ -0,0 +1,102 @@
+import { useEffect, useRef } from "react";
+
+interface MinimapProps {
+  // Tone-mapped image of the whole viewport, or null before the first batch
+  image: ImageData | null;
+  // Side of the plane square shown (-viewportSize/2 .. viewportSize/2 on both axes)
+  viewportSize: number;
+  // Center and size (plane units) of the region visible on the main canvas
+  offsetX: number;
+  offsetY: number;
+  viewWidth: number;
+  viewHeight: number;
+  onPanStart: () => void;
+  onPan: (offsetX: number, offsetY: number) => void;
+  onPanEnd: () => void;
+}
+
+// Side of the minimap in CSS pixels
+export const MINIMAP_SIZE = 160;
+// Smallest drawn outline (CSS pixels), so deep zooms stay visible
+const MIN_OUTLINE_SIZE = 6;
+
+export const Minimap = ({ image, viewportSize, offsetX, offsetY, viewWidth, viewHeight, onPanStart, onPan, onPanEnd }: MinimapProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Plane offset from the pointer to the view center while dragging
+  const dragRef = useRef<{ dx: number; dy: number } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    if (!image) {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+    canvas.width = image.width;
+    canvas.height = image.height;
+    ctx.putImageData(image, 0, 0);
+  }, [image]);
+
+  const unitsPerPixel = viewportSize / MINIMAP_SIZE;
+  const toMinimapX = (re: number) => (re + viewportSize / 2) / unitsPerPixel;
+  const toMinimapY = (im: number) => (viewportSize / 2 - im) / unitsPerPixel;
+
+  const outlineWidth = Math.max(viewWidth / unitsPerPixel, MIN_OUTLINE_SIZE);
+  const outlineHeight = Math.max(viewHeight / unitsPerPixel, MIN_OUTLINE_SIZE);
+
+  const toPlane = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      re: ((e.clientX - rect.left) / rect.width) * viewportSize - viewportSize / 2,
+      im: viewportSize / 2 - ((e.clientY - rect.top) / rect.height) * viewportSize,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPlane(e);
+    // Grabbing the outline keeps the grab point under the pointer; elsewhere the view centers on it
+    const insideOutline =
+      Math.abs(point.re - offsetX) * 2 <= Math.max(viewWidth, MIN_OUTLINE_SIZE * unitsPerPixel) &&
+      Math.abs(point.im - offsetY) * 2 <= Math.max(viewHeight, MIN_OUTLINE_SIZE * unitsPerPixel);
+    dragRef.current = insideOutline ? { dx: offsetX - point.re, dy: offsetY - point.im } : { dx: 0, dy: 0 };
+    onPanStart();
+    onPan(point.re + dragRef.current.dx, point.im + dragRef.current.dy);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    const point = toPlane(e);
+    onPan(point.re + dragRef.current.dx, point.im + dragRef.current.dy);
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    onPanEnd();
+  };
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 overflow-hidden rounded-md border border-border bg-background/80 backdrop-blur-sm cursor-move touch-none"
+      style={{ width: MINIMAP_SIZE, height: MINIMAP_SIZE }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      title="Drag to pan"
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      <div
+        className="absolute border border-yellow-400 pointer-events-none"
+        style={{
+          left: toMinimapX(offsetX) - outlineWidth / 2,
+          top: toMinimapY(offsetY) - outlineHeight / 2,
+          width: outlineWidth,
+          height: outlineHeight,
+        }}
+      />
+    </div>
+  );
+};
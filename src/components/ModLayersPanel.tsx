@@ -0,0 +1,136 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Download } from "lucide-react";
+import {
+  MAX_MOD_LAYERS_MODULUS,
+  MIN_MOD_LAYERS_MODULUS,
+  ModLayer,
+  ModLayersConfig,
+  isModLayerVisible,
+  resizeModLayers,
+} from "@/lib/modLayers";
+import { RenderMode } from "@/lib/renderModes";
+
+interface ModLayersPanelProps {
+  modLayers: ModLayersConfig;
+  onModLayersChange: (config: ModLayersConfig) => void;
+  onExport: () => void;
+  renderMode: RenderMode;
+}
+
+export const ModLayersPanel = ({ modLayers, onModLayersChange, onExport, renderMode }: ModLayersPanelProps) => {
+  const { enabled, modulus, layers } = modLayers;
+  const anySolo = layers.some((layer) => layer.solo);
+
+  const updateLayer = (residue: number, changes: Partial<ModLayer>) => {
+    onModLayersChange({
+      ...modLayers,
+      layers: layers.map((layer, i) => (i === residue ? { ...layer, ...changes } : layer)),
+    });
+  };
+
+  const showAll = () => {
+    onModLayersChange({
+      ...modLayers,
+      layers: layers.map((layer) => ({ ...layer, muted: false, solo: false })),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="mod-layers-enabled" className="text-sm font-normal text-foreground">
+          Layers by Index mod m
+        </Label>
+        <Switch
+          id="mod-layers-enabled"
+          checked={enabled}
+          onCheckedChange={(checked) => onModLayersChange({ ...modLayers, enabled: checked })}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each residue class of the polynomial index is drawn as its own layer with its own brightness scale.
+      </p>
+
+      {enabled && renderMode === 'newton_basin' && (
+        <p className="text-xs text-muted-foreground">Newton basins have no roots to split into layers.</p>
+      )}
+
+      {enabled && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="mod-layers-modulus" className="text-sm font-normal text-foreground">
+              Modulus m: {modulus}
+            </Label>
+            <Slider
+              id="mod-layers-modulus"
+              min={MIN_MOD_LAYERS_MODULUS}
+              max={MAX_MOD_LAYERS_MODULUS}
+              step={1}
+              value={[modulus]}
+              onValueChange={(value) => onModLayersChange(resizeModLayers(modLayers, value[0]))}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-1 pt-2 border-t border-border/50">
+            {layers.map((layer, residue) => (
+              <div
+                key={residue}
+                className={`flex items-center gap-2 ${isModLayerVisible(modLayers, residue) ? '' : 'opacity-50'}`}
+              >
+                <input
+                  type="color"
+                  value={layer.color}
+                  onChange={(e) => updateLayer(residue, { color: e.target.value })}
+                  className="h-6 w-8 shrink-0 cursor-pointer rounded border border-border bg-transparent"
+                  title="Layer color"
+                />
+                <span className="flex-1 text-xs font-mono text-foreground">
+                  index ≡ {residue} (mod {modulus})
+                </span>
+                <Button
+                  size="sm"
+                  variant={layer.solo ? 'default' : 'outline'}
+                  className="h-6 w-7 px-0 text-xs"
+                  onClick={() => updateLayer(residue, { solo: !layer.solo })}
+                  title="Solo: show only soloed layers"
+                >
+                  S
+                </Button>
+                <Button
+                  size="sm"
+                  variant={layer.muted ? 'default' : 'outline'}
+                  className="h-6 w-7 px-0 text-xs"
+                  onClick={() => updateLayer(residue, { muted: !layer.muted })}
+                  disabled={anySolo}
+                  title="Mute: hide this layer"
+                >
+                  M
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2 pt-2 border-t border-border/50">
+            <Button size="sm" variant="outline" className="flex-1" onClick={showAll}>
+              Show all
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              onClick={onExport}
+              title="One image per residue class, muted and unsoloed layers included"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              Export layers
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
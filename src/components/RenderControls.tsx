@@ -0,0 +1,58 @@
+import { Button } from "@/components/ui/button";
+import { Pause, Play, Sparkles } from "lucide-react";
+
+interface RenderControlsProps {
+  isRendering: boolean;
+  isPaused: boolean;
+  // Refinement passes drawn after the first, and how many the sampling allows
+  refinementPasses: number;
+  refinementLimit: number;
+  onPause: () => void;
+  onResume: () => void;
+  onRefine: () => void;
+}
+
+export const RenderControls = ({
+  isRendering,
+  isPaused,
+  refinementPasses,
+  refinementLimit,
+  onPause,
+  onResume,
+  onRefine,
+}: RenderControlsProps) => {
+  const canRefine = !isRendering && refinementPasses < refinementLimit;
+  if (!isRendering && !canRefine) return null;
+
+  return (
+    <div className="absolute bottom-14 right-5 flex items-center gap-2">
+      {refinementPasses > 0 && (
+        <span className="text-xs font-mono text-white/70">
+          pass {refinementPasses + 1}/{refinementLimit + 1}
+        </span>
+      )}
+      {isRendering ? (
+        <Button
+          size="icon"
+          variant="outline"
+          className="bg-background/50 backdrop-blur-sm h-8 w-8"
+          onClick={isPaused ? onResume : onPause}
+          title={isPaused ? 'Resume (P)' : 'Pause (P)'}
+        >
+          {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+        </Button>
+      ) : (
+        <Button
+          size="sm"
+          variant="outline"
+          className="bg-background/50 backdrop-blur-sm h-8"
+          onClick={onRefine}
+          title="Add polynomials between the drawn ones (M)"
+        >
+          <Sparkles className="w-4 h-4 mr-1" />
+          More roots
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { X } from "lucide-react";
+import { Complex } from "@/lib/math";
+
+interface RootInspectorProps {
+  polynomialIndex: bigint;
+  // Root that was clicked (highlighted in the list)
+  rootNumber: number;
+  coefficients: Complex[];
+  // Palette index chosen at each power (a₀ first)
+  paletteIndices: number[];
+  roots: Complex[];
+  converged: boolean;
+  iterations: number;
+  // Bohemian mode inspects a matrix: the positions are its free entries
+  isMatrix: boolean;
+  highlight: boolean;
+  onHighlightChange: (value: boolean) => void;
+  onClose: () => void;
+}
+
+const formatComplex = (z: Complex): string =>
+  `${z.re.toFixed(6)} ${z.im >= 0 ? '+' : '-'} ${Math.abs(z.im).toFixed(6)}i`;
+
+// Littlewood-style palettes ({1, -1}) read best as a sign sequence
+const isSignPalette = (coefficients: Complex[]): boolean =>
+  coefficients.length === 2 &&
+  coefficients.every((c) => c.im === 0 && Math.abs(c.re) === 1) &&
+  coefficients[0].re !== coefficients[1].re;
+
+export const RootInspector = ({
+  polynomialIndex,
+  rootNumber,
+  coefficients,
+  paletteIndices,
+  roots,
+  converged,
+  iterations,
+  isMatrix,
+  highlight,
+  onHighlightChange,
+  onClose,
+}: RootInspectorProps) => {
+  const sequence = isSignPalette(coefficients)
+    ? paletteIndices.map((i) => (coefficients[i].re > 0 ? '+' : '−')).join('')
+    : paletteIndices.map((i) => `#${i}`).join(' ');
+
+  return (
+    <div className="absolute bottom-4 right-24 w-[320px] max-h-[60vh] flex flex-col gap-3 p-4 rounded-lg bg-background/80 backdrop-blur-sm border border-border text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-foreground">
+          {isMatrix ? 'Matrix' : 'Polynomial'} #{polynomialIndex.toLocaleString()}
+        </span>
+        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">
+          {isMatrix ? 'Entries' : 'Coefficients'} (a₀ → a{paletteIndices.length - 1})
+        </Label>
+        <p className="font-mono text-xs break-all text-foreground">{sequence}</p>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {converged ? 'Converged' : 'Did not converge'} after {iterations} iterations
+      </p>
+
+      <div className="space-y-1 min-h-0 flex flex-col">
+        <Label className="text-xs text-muted-foreground">
+          {isMatrix ? 'Eigenvalues' : 'Roots'} ({roots.length})
+        </Label>
+        <ol className="font-mono text-xs overflow-y-auto min-h-0">
+          {roots.map((root, i) => (
+            <li key={i} className={i === rootNumber ? 'text-foreground font-semibold' : 'text-muted-foreground'}>
+              {i}: {formatComplex(root)}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="inspector-highlight" className="text-xs font-normal text-foreground">
+          Highlight this {isMatrix ? 'matrix' : 'polynomial'}
+        </Label>
+        <Switch id="inspector-highlight" checked={highlight} onCheckedChange={onHighlightChange} />
+      </div>
+    </div>
+  );
+};
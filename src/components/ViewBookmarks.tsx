@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ArrowLeft, ArrowRight, Bookmark, BookmarkPlus, Trash2 } from "lucide-react";
+import { ViewBookmark } from "@/lib/views";
+
+interface ViewBookmarksProps {
+  bookmarks: ViewBookmark[];
+  onAdd: (name: string) => void;
+  onFlyTo: (bookmark: ViewBookmark) => void;
+  onDelete: (id: string) => void;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  onBack: () => void;
+  onForward: () => void;
+}
+
+const formatZoom = (zoom: number): string =>
+  zoom >= 1000 ? `${zoom.toExponential(1)}×` : `${Number(zoom.toPrecision(3))}×`;
+
+export const ViewBookmarks = ({
+  bookmarks,
+  onAdd,
+  onFlyTo,
+  onDelete,
+  canGoBack,
+  canGoForward,
+  onBack,
+  onForward,
+}: ViewBookmarksProps) => {
+  const [name, setName] = useState('');
+
+  const handleAdd = () => {
+    onAdd(name.trim() || `View ${bookmarks.length + 1}`);
+    setName('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="outline"
+          className="bg-background/50 backdrop-blur-sm h-10 w-10"
+          title="Views"
+        >
+          <Bookmark className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[300px] space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-normal text-foreground">Views</Label>
+          <div className="flex gap-1">
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onBack} disabled={!canGoBack} title="Back ( [ )">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onForward} disabled={!canGoForward} title="Forward ( ] )">
+              <ArrowRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+            placeholder={`View ${bookmarks.length + 1}`}
+            className="h-8 text-xs"
+            aria-label="Bookmark name"
+          />
+          <Button size="sm" variant="outline" className="h-8 shrink-0" onClick={handleAdd} title="Bookmark this view">
+            <BookmarkPlus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {bookmarks.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No bookmarks yet. Saved views fly back into place when clicked.</p>
+        ) : (
+          <ul className="max-h-[50vh] overflow-y-auto space-y-1">
+            {bookmarks.map((bookmark) => (
+              <li key={bookmark.id} className="flex items-center gap-2 rounded-md hover:bg-muted/50">
+                <button
+                  type="button"
+                  className="flex flex-1 min-w-0 items-center gap-2 p-1 text-left"
+                  onClick={() => onFlyTo(bookmark)}
+                  title="Fly to this view"
+                >
+                  {bookmark.thumbnail ? (
+                    <img src={bookmark.thumbnail} alt="" className="w-12 h-12 rounded object-cover shrink-0" />
+                  ) : (
+                    <div className="w-12 h-12 rounded bg-muted shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm text-foreground truncate">{bookmark.name}</p>
+                    <p className="text-xs font-mono text-muted-foreground truncate">
+                      {formatZoom(bookmark.view.zoom)} at {bookmark.view.offsetX.toPrecision(4)}, {bookmark.view.offsetY.toPrecision(4)}
+                    </p>
+                  </div>
+                </button>
+                <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0" onClick={() => onDelete(bookmark.id)} title="Delete bookmark">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,65 @@
+/**
+ * Per-position coefficient sets
+ *
+ * By default every power draws from the whole coefficient palette. Individual powers
+ * can be restricted to a subset of palette entries (e.g. a₀ fixed to 1, aₙ ∈ {±1}),
+ * which turns polynomial indexing into mixed radix with one digit per power.
+ */
+
+import { PositionSets } from './math';
+
+// Restricted powers: power → palette indices. Powers without an entry use the full palette.
+export type PositionSetOverrides = Record<number, number[]>;
+
+/**
+ * Apply overrides to the full palette for each power 0..degree.
+ * Palette indices that no longer exist are dropped; a set left empty falls back
+ * to the full palette so the polynomial space never becomes empty.
+ */
+export const resolvePositionSets = (
+  overrides: PositionSetOverrides,
+  degree: number,
+  paletteSize: number
+): PositionSets => {
+  const all = Array.from({ length: paletteSize }, (_, i) => i);
+  return Array.from({ length: degree + 1 }, (_, power) => {
+    const override = overrides[power];
+    if (!override) return all;
+    const valid = override.filter((i) => i >= 0 && i < paletteSize);
+    return valid.length > 0 ? valid : all;
+  });
+};
+
+/**
+ * Toggle one palette entry at a power. Selecting every entry removes the override;
+ * the last remaining entry cannot be deselected.
+ */
+export const togglePositionSetEntry = (
+  overrides: PositionSetOverrides,
+  power: number,
+  paletteIndex: number,
+  paletteSize: number
+): PositionSetOverrides => {
+  const current = (overrides[power] ?? Array.from({ length: paletteSize }, (_, i) => i))
+    .filter((i) => i < paletteSize);
+  const next = current.includes(paletteIndex)
+    ? current.filter((i) => i !== paletteIndex)
+    : [...current, paletteIndex].sort((a, b) => a - b);
+
+  if (next.length === 0) return overrides;
+  const { [power]: _removed, ...rest } = overrides;
+  if (next.length >= paletteSize) return rest;
+  return { ...rest, [power]: next };
+};
+
+/**
+ * URL encoding of one set: 1-based palette indices joined by '.', e.g. "1.3".
+ */
+export const formatPositionSet = (indices: number[]): string =>
+  indices.map((i) => i + 1).join('.');
+
+export const parsePositionSet = (value: string): number[] | null => {
+  const indices = value.split('.').map((part) => parseInt(part, 10) - 1);
+  if (indices.length === 0 || indices.some((i) => isNaN(i) || i < 0)) return null;
+  return Array.from(new Set(indices)).sort((a, b) => a - b);
+};
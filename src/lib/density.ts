@@ -0,0 +1,211 @@
+/**
+ * Density-histogram accumulation and tone mapping
+ *
+ * Instead of painting semi-transparent dots (where saturation depends on draw order),
+ * every root increments a per-pixel hit counter and adds its color to a per-pixel
+ * color sum. Brightness is derived from the hit counts only when the buffer is
+ * displayed, so exposure and tone mapping can change without re-rendering.
+ */
+
+export type ToneMapping =
+  | 'linear'     // count / maxCount
+  | 'log'        // log(1 + count) / log(1 + maxCount)
+  | 'sqrt'       // sqrt(count / maxCount)
+  | 'equalize';  // Histogram-equalized: rank of count among all lit pixels
+
+export interface ToneMappingSettings {
+  mode: ToneMapping;
+  // Exposure in stops (brightness multiplier 2^exposure)
+  exposure: number;
+  // Same convention as the gamma slider: -3..3, 0 = linear, gamma = 10^-gammaCorrection
+  gammaCorrection: number;
+}
+
+export const DEFAULT_TONE_MAPPING: ToneMappingSettings = {
+  mode: 'log',
+  exposure: 0,
+  gammaCorrection: 0,
+};
+
+export const TONE_MAPPINGS: ToneMapping[] = ['linear', 'log', 'sqrt', 'equalize'];
+
+export interface DensityBuffer {
+  width: number;
+  height: number;
+  // Hit count per pixel
+  counts: Uint32Array;
+  // Sum of hit colors per pixel (r, g, b interleaved, 0..255 per hit)
+  colorSums: Float32Array;
+  maxCount: number;
+}
+
+// Number of log-spaced bins used for histogram equalization
+const EQUALIZE_BINS = 1024;
+
+export const createDensityBuffer = (width: number, height: number): DensityBuffer => {
+  const w = Math.max(0, Math.floor(width));
+  const h = Math.max(0, Math.floor(height));
+  return {
+    width: w,
+    height: h,
+    counts: new Uint32Array(w * h),
+    colorSums: new Float32Array(w * h * 3),
+    maxCount: 0,
+  };
+};
+
+export const clearDensityBuffer = (buffer: DensityBuffer): void => {
+  buffer.counts.fill(0);
+  buffer.colorSums.fill(0);
+  buffer.maxCount = 0;
+};
+
+/**
+ * Add one hit of the given color to a size×size square with top-left corner (x, y).
+ * Pixels outside the buffer are ignored.
+ */
+export const accumulateHit = (
+  buffer: DensityBuffer,
+  x: number,
+  y: number,
+  size: number,
+  r: number,
+  g: number,
+  b: number
+): void => {
+  const { width, height, counts, colorSums } = buffer;
+  for (let py = y; py < y + size; py++) {
+    if (py < 0 || py >= height) continue;
+    for (let px = x; px < x + size; px++) {
+      if (px < 0 || px >= width) continue;
+      const i = py * width + px;
+      const count = ++counts[i];
+      if (count > buffer.maxCount) buffer.maxCount = count;
+      colorSums[i * 3] += r;
+      colorSums[i * 3 + 1] += g;
+      colorSums[i * 3 + 2] += b;
+    }
+  }
+};
+
+/**
+ * Convert hsl(hue, 100%, 60%) — the color every root used to be painted with — to RGB 0..255.
+ */
+export const hueToRgb = (hue: number): [number, number, number] => {
+  const h = (((hue % 360) + 360) % 360) / 30;
+  const lightness = 0.6;
+  const a = 1 - lightness; // saturation 100%: a = s * min(l, 1 - l)
+  const channel = (n: number) => {
+    const k = (n + h) % 12;
+    return (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+/**
+ * Buffer-wide quantities tone mapping normalizes against. Computed per buffer for
+ * display; a tiled export computes them once over the whole image so tiles match.
+ */
+export interface ToneMapStats {
+  maxCount: number;
+  // Equalized brightness per log-spaced bin ('equalize' mode only)
+  equalization: Float32Array | null;
+}
+
+/**
+ * Build the cumulative distribution of lit-pixel counts over log-spaced bins.
+ * Returns a lookup from bin to equalized brightness (0..1).
+ */
+const buildEqualizationTable = (counts: Uint32Array, maxCount: number): Float32Array => {
+  const histogram = new Float64Array(EQUALIZE_BINS);
+  const logMax = Math.log(maxCount + 1);
+  let lit = 0;
+  for (let i = 0; i < counts.length; i++) {
+    const count = counts[i];
+    if (count === 0) continue;
+    histogram[Math.floor((Math.log(count + 1) / logMax) * (EQUALIZE_BINS - 1))]++;
+    lit++;
+  }
+  const table = new Float32Array(EQUALIZE_BINS);
+  let cumulative = 0;
+  for (let bin = 0; bin < EQUALIZE_BINS; bin++) {
+    cumulative += histogram[bin];
+    table[bin] = lit > 0 ? cumulative / lit : 0;
+  }
+  return table;
+};
+
+export const getToneMapStats = (counts: Uint32Array, maxCount: number, mode: ToneMapping): ToneMapStats => ({
+  maxCount,
+  equalization: mode === 'equalize' && maxCount > 0 ? buildEqualizationTable(counts, maxCount) : null,
+});
+
+/**
+ * Brightness (0..1, exposure and gamma applied) of a lit pixel with the given hit count.
+ */
+export const createToneMapper = (settings: ToneMappingSettings, stats: ToneMapStats): ((count: number) => number) => {
+  const { maxCount, equalization } = stats;
+  const exposureScale = Math.pow(2, settings.exposure);
+  const gamma = Math.pow(10, -settings.gammaCorrection);
+  const logMax = Math.log(maxCount + 1);
+
+  return (count: number) => {
+    let brightness: number;
+    switch (settings.mode) {
+      case 'linear':
+        brightness = count / maxCount;
+        break;
+      case 'sqrt':
+        brightness = Math.sqrt(count / maxCount);
+        break;
+      case 'equalize':
+        brightness = equalization![Math.floor((Math.log(count + 1) / logMax) * (EQUALIZE_BINS - 1))];
+        break;
+      case 'log':
+      default:
+        brightness = Math.log(count + 1) / logMax;
+        break;
+    }
+
+    brightness = Math.min(1, brightness * exposureScale);
+    return gamma !== 1 ? Math.pow(brightness, gamma) : brightness;
+  };
+};
+
+/**
+ * Tone-map a density buffer into RGBA pixels.
+ * Color is the average color of all hits; alpha is the tone-mapped brightness.
+ */
+export const renderDensityToImageData = (
+  buffer: DensityBuffer,
+  settings: ToneMappingSettings,
+  imageData: ImageData
+): void => {
+  const { counts, colorSums, maxCount } = buffer;
+  const pixels = imageData.data;
+  const pixelCount = Math.min(counts.length, pixels.length / 4);
+
+  if (maxCount === 0) {
+    pixels.fill(0);
+    return;
+  }
+
+  const toneMap = createToneMapper(settings, getToneMapStats(counts, maxCount, settings.mode));
+
+  for (let i = 0; i < pixelCount; i++) {
+    const count = counts[i];
+    const p = i * 4;
+    if (count === 0) {
+      pixels[p] = 0;
+      pixels[p + 1] = 0;
+      pixels[p + 2] = 0;
+      pixels[p + 3] = 0;
+      continue;
+    }
+
+    pixels[p] = colorSums[i * 3] / count;
+    pixels[p + 1] = colorSums[i * 3 + 1] / count;
+    pixels[p + 2] = colorSums[i * 3 + 2] / count;
+    pixels[p + 3] = toneMap(count) * 255;
+  }
+};
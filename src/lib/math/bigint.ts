@@ -0,0 +1,27 @@
+/**
+ * BigInt helpers for polynomial index arithmetic
+ *
+ * Polynomial spaces grow as coeffsLength^(degree+1) and quickly exceed 2^53,
+ * so indices and counts are bigints. These helpers bridge them with the
+ * floating-point factors (offsets, screen positions) used by the UI.
+ */
+
+// Fixed-point resolution used when multiplying a bigint by a float
+const FRACTION_BITS = 32n;
+const FRACTION_SCALE = 2 ** 32;
+
+/**
+ * Ceiling division for non-negative bigints.
+ */
+export const bigIntCeilDiv = (a: bigint, b: bigint): bigint =>
+  (a + b - 1n) / b;
+
+export const bigIntAbs = (a: bigint): bigint =>
+  a < 0n ? -a : a;
+
+/**
+ * floor(value * factor) for a non-negative factor (offsets, screen fractions),
+ * with the factor rounded to a multiple of 2^-32.
+ */
+export const scaleBigInt = (value: bigint, factor: number): bigint =>
+  (value * BigInt(Math.floor(Math.max(0, factor) * FRACTION_SCALE))) >> FRACTION_BITS;
@@ -0,0 +1,109 @@
+/**
+ * Bohemian matrices: matrices whose entries are drawn from a fixed finite alphabet
+ *
+ * The coefficient palette serves as the alphabet. A structure decides which
+ * entries are free; everything else is zero (or tied, for Toeplitz). The free
+ * entries play the role of polynomial coefficients, so a matrix is enumerated by
+ * the same mixed-radix index with one digit per free entry.
+ */
+
+import { Complex } from './complex';
+import { ComplexMatrix, EigenvalueResult, createComplexMatrix, eigenvaluesHessenberg, reduceToHessenberg } from './eigen';
+
+export type MatrixStructure =
+  | 'full'              // All n² entries free
+  | 'tridiagonal'       // Diagonal, super- and subdiagonal: 3n - 2 entries
+  | 'toeplitz'          // Constant along each diagonal: 2n - 1 entries
+  | 'upper_hessenberg'; // Everything on or above the subdiagonal: (n² + 3n - 2) / 2 entries
+
+export const MATRIX_STRUCTURES: MatrixStructure[] = ['full', 'tridiagonal', 'toeplitz', 'upper_hessenberg'];
+
+export const DEFAULT_MATRIX_STRUCTURE: MatrixStructure = 'upper_hessenberg';
+
+export interface BohemianConfig {
+  structure: MatrixStructure;
+  // Matrix dimension n (= eigenvalues per matrix)
+  size: number;
+}
+
+/**
+ * Number of free entries of an n×n matrix with the given structure.
+ */
+export const getMatrixEntryCount = (structure: MatrixStructure, size: number): number => {
+  switch (structure) {
+    case 'tridiagonal':
+      return 3 * size - 2;
+    case 'toeplitz':
+      return 2 * size - 1;
+    case 'upper_hessenberg':
+      return (size * size + 3 * size - 2) / 2;
+    case 'full':
+    default:
+      return size * size;
+  }
+};
+
+/**
+ * Place the free entries into a dense matrix.
+ *
+ * Entry order: full and upper Hessenberg are row-major; tridiagonal lists the
+ * diagonal, then the superdiagonal, then the subdiagonal; Toeplitz lists the
+ * diagonals from the bottom-left corner (j - i = 1 - n) to the top-right corner.
+ */
+export const buildBohemianMatrix = (config: BohemianConfig, entries: Complex[]): ComplexMatrix => {
+  const { structure, size: n } = config;
+  const matrix = createComplexMatrix(n);
+  const set = (row: number, col: number, value: Complex) => {
+    matrix.re[row * n + col] = value.re;
+    matrix.im[row * n + col] = value.im;
+  };
+
+  switch (structure) {
+    case 'tridiagonal':
+      for (let i = 0; i < n; i++) set(i, i, entries[i]);
+      for (let i = 0; i < n - 1; i++) {
+        set(i, i + 1, entries[n + i]);
+        set(i + 1, i, entries[2 * n - 1 + i]);
+      }
+      break;
+
+    case 'toeplitz':
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) set(i, j, entries[j - i + n - 1]);
+      }
+      break;
+
+    case 'upper_hessenberg': {
+      let e = 0;
+      for (let i = 0; i < n; i++) {
+        for (let j = Math.max(0, i - 1); j < n; j++) set(i, j, entries[e++]);
+      }
+      break;
+    }
+
+    case 'full':
+    default:
+      for (let i = 0; i < n * n; i++) {
+        matrix.re[i] = entries[i].re;
+        matrix.im[i] = entries[i].im;
+      }
+  }
+
+  return matrix;
+};
+
+/**
+ * Eigenvalues of the matrix built from the given free entries.
+ */
+export const getBohemianEigenvalues = (
+  config: BohemianConfig,
+  entries: Complex[],
+  maxIterPerEigenvalue: number
+): EigenvalueResult => {
+  const matrix = buildBohemianMatrix(config, entries);
+  // Tridiagonal and upper Hessenberg matrices are already in Hessenberg form
+  if (config.structure === 'full' || config.structure === 'toeplitz') {
+    reduceToHessenberg(matrix);
+  }
+  return eigenvaluesHessenberg(matrix, maxIterPerEigenvalue);
+};
@@ -0,0 +1,167 @@
+/**
+ * Double-double arithmetic and root polishing for deep zoom
+ *
+ * A double-double is an unevaluated sum hi + lo of two doubles with |lo| ≤ ulp(hi)/2,
+ * which carries about 106 bits (32 decimal digits). The error-free transformations
+ * below (Knuth's two-sum, Dekker's split product) are exact in IEEE double arithmetic.
+ *
+ * Float64 roots near the unit circle are only good to a few ulps of 1 (and far worse
+ * where roots cluster, since P is evaluated with an absolute error of about
+ * eps·Σ|aₖ|). Past a zoom of ~1e10 that is coarser than a pixel. Polishing evaluates
+ * P in double-double and takes a few Aberth steps from the float64 roots, so the
+ * roots are then accurate far beyond double precision; storing them relative to the
+ * view center keeps that accuracy through drawing.
+ */
+
+import { Complex, complexAbs, complexAdd, complexDivide, complexMultiply, complexSubtract, COMPLEX_ONE, COMPLEX_ZERO } from './complex';
+
+export interface DoubleDouble {
+  hi: number;
+  lo: number;
+}
+
+export interface ComplexDD {
+  re: DoubleDouble;
+  im: DoubleDouble;
+}
+
+// 2^27 + 1, splits a double into two 26-bit halves
+const SPLITTER = 134217729;
+// Polishing stops once a step is below this fraction of |z| (about the double-double precision)
+const POLISH_TOLERANCE = 1e-30;
+const MIN_DENOMINATOR = 1e-300;
+
+const twoSum = (a: number, b: number): DoubleDouble => {
+  const hi = a + b;
+  const bb = hi - a;
+  return { hi, lo: (a - (hi - bb)) + (b - bb) };
+};
+
+const quickTwoSum = (a: number, b: number): DoubleDouble => {
+  const hi = a + b;
+  return { hi, lo: b - (hi - a) };
+};
+
+const twoProduct = (a: number, b: number): DoubleDouble => {
+  const p = a * b;
+  let t = SPLITTER * a;
+  const aHi = t - (t - a);
+  const aLo = a - aHi;
+  t = SPLITTER * b;
+  const bHi = t - (t - b);
+  const bLo = b - bHi;
+  return { hi: p, lo: ((aHi * bHi - p) + aHi * bLo + aLo * bHi) + aLo * bLo };
+};
+
+export const ddFromNumber = (value: number): DoubleDouble => ({ hi: value, lo: 0 });
+
+export const ddToNumber = (value: DoubleDouble): number => value.hi + value.lo;
+
+export const ddAdd = (a: DoubleDouble, b: DoubleDouble): DoubleDouble => {
+  const s = twoSum(a.hi, b.hi);
+  const t = twoSum(a.lo, b.lo);
+  const u = quickTwoSum(s.hi, s.lo + t.hi);
+  return quickTwoSum(u.hi, u.lo + t.lo);
+};
+
+export const ddNegate = (a: DoubleDouble): DoubleDouble => ({ hi: -a.hi, lo: -a.lo });
+
+export const ddSubtract = (a: DoubleDouble, b: DoubleDouble): DoubleDouble => ddAdd(a, ddNegate(b));
+
+export const ddMultiply = (a: DoubleDouble, b: DoubleDouble): DoubleDouble => {
+  const p = twoProduct(a.hi, b.hi);
+  return quickTwoSum(p.hi, p.lo + (a.hi * b.lo + a.lo * b.hi));
+};
+
+export const complexDDFromComplex = (z: Complex): ComplexDD => ({ re: ddFromNumber(z.re), im: ddFromNumber(z.im) });
+
+export const complexDDToComplex = (z: ComplexDD): Complex => ({ re: ddToNumber(z.re), im: ddToNumber(z.im) });
+
+export const complexDDAdd = (a: ComplexDD, b: ComplexDD): ComplexDD => ({
+  re: ddAdd(a.re, b.re),
+  im: ddAdd(a.im, b.im),
+});
+
+export const complexDDMultiply = (a: ComplexDD, b: ComplexDD): ComplexDD => ({
+  re: ddSubtract(ddMultiply(a.re, b.re), ddMultiply(a.im, b.im)),
+  im: ddAdd(ddMultiply(a.re, b.im), ddMultiply(a.im, b.re)),
+});
+
+/**
+ * P(z) in double-double by Horner's rule (coefficients are exact doubles).
+ */
+export const evaluatePolynomialDD = (coeffs: Complex[], z: ComplexDD): ComplexDD => {
+  let result = complexDDFromComplex(coeffs[coeffs.length - 1]);
+  for (let i = coeffs.length - 2; i >= 0; i--) {
+    result = complexDDAdd(complexDDMultiply(result, z), complexDDFromComplex(coeffs[i]));
+  }
+  return result;
+};
+
+/**
+ * z - d for a double-double z and a small double correction d.
+ */
+const subtractCorrection = (z: ComplexDD, d: Complex): ComplexDD => ({
+  re: ddAdd(z.re, ddFromNumber(-d.re)),
+  im: ddAdd(z.im, ddFromNumber(-d.im)),
+});
+
+/**
+ * Refine float64 roots to double-double accuracy with Aberth steps.
+ *
+ * Only P(z) needs the extra precision: the Newton quotient P/P' and the repulsion
+ * between roots are corrections many orders of magnitude below |z|, so double
+ * precision is plenty for them. Non-finite roots are returned unchanged, as are
+ * roots not marked in `selected` (they still repel the others).
+ */
+export const polishRootsDD = (
+  coeffs: Complex[],
+  roots: Complex[],
+  selected?: boolean[],
+  maxIterations: number = 4
+): ComplexDD[] => {
+  const polished = roots.map(complexDDFromComplex);
+  const degree = roots.length;
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let done = true;
+
+    for (let i = 0; i < degree; i++) {
+      if (selected && !selected[i]) continue;
+      const xi = complexDDToComplex(polished[i]);
+      if (!isFinite(xi.re) || !isFinite(xi.im)) continue;
+
+      const value = complexDDToComplex(evaluatePolynomialDD(coeffs, polished[i]));
+      if (value.re === 0 && value.im === 0) continue;
+
+      // P'(z) in double precision
+      let derivative: Complex = COMPLEX_ZERO;
+      for (let k = coeffs.length - 1; k >= 1; k--) {
+        derivative = complexAdd(complexMultiply(derivative, xi), complexMultiply(coeffs[k], { re: k, im: 0 }));
+      }
+      if (complexAbs(derivative) < MIN_DENOMINATOR) continue;
+      const newtonStep = complexDivide(value, derivative);
+
+      // Sum of 1/(x_i - x_j) keeps clustered roots from converging onto the same one
+      let repulsion: Complex = COMPLEX_ZERO;
+      for (let j = 0; j < degree; j++) {
+        if (j === i) continue;
+        const diff = complexSubtract(xi, complexDDToComplex(polished[j]));
+        if (diff.re === 0 && diff.im === 0) continue;
+        repulsion = complexAdd(repulsion, complexDivide(COMPLEX_ONE, diff));
+      }
+
+      const denom = complexSubtract(COMPLEX_ONE, complexMultiply(newtonStep, repulsion));
+      if (complexAbs(denom) < MIN_DENOMINATOR) continue;
+      const correction = complexDivide(newtonStep, denom);
+      if (!isFinite(correction.re) || !isFinite(correction.im)) continue;
+
+      polished[i] = subtractCorrection(polished[i], correction);
+      if (complexAbs(correction) > POLISH_TOLERANCE * Math.max(complexAbs(xi), 1e-300)) done = false;
+    }
+
+    if (done) break;
+  }
+
+  return polished;
+};
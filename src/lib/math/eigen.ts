@@ -0,0 +1,293 @@
+/**
+ * Eigenvalues of complex upper Hessenberg matrices
+ *
+ * Matrices are stored row-major as separate real and imaginary Float64Arrays.
+ * The solver is the single-shift QR algorithm with Wilkinson shifts, Givens
+ * rotations and deflation on small subdiagonal entries. General matrices are
+ * first brought to Hessenberg form with reduceToHessenberg.
+ */
+
+import { Complex } from './complex';
+
+export interface ComplexMatrix {
+  size: number;
+  re: Float64Array;
+  im: Float64Array;
+}
+
+export interface EigenvalueResult {
+  eigenvalues: Complex[];
+  converged: boolean;
+  iterations: number;
+}
+
+const DEFLATION_EPSILON = 1e-14;
+// Apply an exceptional (ad-hoc) shift after this many iterations without deflation
+const EXCEPTIONAL_SHIFT_INTERVAL = 10;
+
+export const createComplexMatrix = (size: number): ComplexMatrix => ({
+  size,
+  re: new Float64Array(size * size),
+  im: new Float64Array(size * size),
+});
+
+/**
+ * Compute all eigenvalues of an upper Hessenberg matrix. The matrix is modified in place.
+ *
+ * @param h - Upper Hessenberg matrix (entries below the subdiagonal are ignored)
+ * @param maxIterPerEigenvalue - QR sweeps allowed before an eigenvalue is given up on
+ */
+export const eigenvaluesHessenberg = (
+  h: ComplexMatrix,
+  maxIterPerEigenvalue: number
+): EigenvalueResult => {
+  const n = h.size;
+  const re = h.re;
+  const im = h.im;
+  const eigenvalues: Complex[] = new Array(n);
+  let totalIterations = 0;
+  let converged = true;
+  let hi = n - 1;
+  let iterSinceDeflation = 0;
+
+  const absAt = (row: number, col: number) => Math.hypot(re[row * n + col], im[row * n + col]);
+
+  while (hi >= 0) {
+    if (hi === 0) {
+      eigenvalues[0] = { re: re[0], im: im[0] };
+      break;
+    }
+
+    // Find the start of the active unreduced block
+    let lo = hi;
+    while (lo > 0) {
+      const scale = absAt(lo - 1, lo - 1) + absAt(lo, lo);
+      if (absAt(lo, lo - 1) <= DEFLATION_EPSILON * (scale === 0 ? 1 : scale)) {
+        re[lo * n + lo - 1] = 0;
+        im[lo * n + lo - 1] = 0;
+        break;
+      }
+      lo--;
+    }
+
+    if (lo === hi) {
+      eigenvalues[hi] = { re: re[hi * n + hi], im: im[hi * n + hi] };
+      hi--;
+      iterSinceDeflation = 0;
+      continue;
+    }
+
+    if (iterSinceDeflation >= maxIterPerEigenvalue) {
+      // Give up: report the current diagonal of the unreduced block
+      converged = false;
+      for (let k = lo; k <= hi; k++) {
+        eigenvalues[k] = { re: re[k * n + k], im: im[k * n + k] };
+      }
+      hi = lo - 1;
+      iterSinceDeflation = 0;
+      continue;
+    }
+
+    const shift = iterSinceDeflation > 0 && iterSinceDeflation % EXCEPTIONAL_SHIFT_INTERVAL === 0
+      ? exceptionalShift(h, hi)
+      : wilkinsonShift(h, hi);
+
+    qrSweep(h, lo, hi, shift);
+    iterSinceDeflation++;
+    totalIterations++;
+  }
+
+  return { eigenvalues, converged, iterations: totalIterations };
+};
+
+/**
+ * Reduce a general matrix to upper Hessenberg form in place with Householder
+ * reflections. The result is unitarily similar, so the eigenvalues are unchanged.
+ */
+export const reduceToHessenberg = (m: ComplexMatrix): void => {
+  const n = m.size;
+  const re = m.re;
+  const im = m.im;
+  const vRe = new Float64Array(n);
+  const vIm = new Float64Array(n);
+
+  for (let k = 0; k < n - 2; k++) {
+    // Householder vector for the column below the subdiagonal: x - alpha·e₀ with
+    // alpha = -(x₀/|x₀|)·|x| so the subtraction cannot cancel
+    const len = n - k - 1;
+    let xNorm = 0;
+    for (let i = 0; i < len; i++) {
+      vRe[i] = re[(k + 1 + i) * n + k];
+      vIm[i] = im[(k + 1 + i) * n + k];
+      xNorm += vRe[i] * vRe[i] + vIm[i] * vIm[i];
+    }
+    xNorm = Math.sqrt(xNorm);
+    if (xNorm === 0) continue;
+
+    const x0Abs = Math.hypot(vRe[0], vIm[0]);
+    const phaseRe = x0Abs === 0 ? 1 : vRe[0] / x0Abs;
+    const phaseIm = x0Abs === 0 ? 0 : vIm[0] / x0Abs;
+    vRe[0] += phaseRe * xNorm;
+    vIm[0] += phaseIm * xNorm;
+
+    let vNorm = 0;
+    for (let i = 0; i < len; i++) vNorm += vRe[i] * vRe[i] + vIm[i] * vIm[i];
+    vNorm = Math.sqrt(vNorm);
+    if (vNorm === 0) continue;
+    for (let i = 0; i < len; i++) {
+      vRe[i] /= vNorm;
+      vIm[i] /= vNorm;
+    }
+
+    // Left: A := (I - 2vv*)A on rows k+1..n-1
+    for (let j = k; j < n; j++) {
+      let sRe = 0, sIm = 0;
+      for (let i = 0; i < len; i++) {
+        const aRe = re[(k + 1 + i) * n + j], aIm = im[(k + 1 + i) * n + j];
+        // conj(v_i) * a
+        sRe += vRe[i] * aRe + vIm[i] * aIm;
+        sIm += vRe[i] * aIm - vIm[i] * aRe;
+      }
+      for (let i = 0; i < len; i++) {
+        re[(k + 1 + i) * n + j] -= 2 * (vRe[i] * sRe - vIm[i] * sIm);
+        im[(k + 1 + i) * n + j] -= 2 * (vRe[i] * sIm + vIm[i] * sRe);
+      }
+    }
+
+    // Right: A := A(I - 2vv*) on columns k+1..n-1
+    for (let i = 0; i < n; i++) {
+      let sRe = 0, sIm = 0;
+      for (let j = 0; j < len; j++) {
+        const aRe = re[i * n + k + 1 + j], aIm = im[i * n + k + 1 + j];
+        sRe += aRe * vRe[j] - aIm * vIm[j];
+        sIm += aRe * vIm[j] + aIm * vRe[j];
+      }
+      for (let j = 0; j < len; j++) {
+        // s * conj(v_j)
+        re[i * n + k + 1 + j] -= 2 * (sRe * vRe[j] + sIm * vIm[j]);
+        im[i * n + k + 1 + j] -= 2 * (sIm * vRe[j] - sRe * vIm[j]);
+      }
+    }
+
+    // Entries below the subdiagonal are zero up to rounding
+    for (let i = k + 2; i < n; i++) {
+      re[i * n + k] = 0;
+      im[i * n + k] = 0;
+    }
+  }
+};
+
+/**
+ * Eigenvalue of the trailing 2x2 block closest to its bottom-right entry.
+ */
+function wilkinsonShift(h: ComplexMatrix, hi: number): Complex {
+  const n = h.size;
+  const aRe = h.re[(hi - 1) * n + hi - 1], aIm = h.im[(hi - 1) * n + hi - 1];
+  const bRe = h.re[(hi - 1) * n + hi], bIm = h.im[(hi - 1) * n + hi];
+  const cRe = h.re[hi * n + hi - 1], cIm = h.im[hi * n + hi - 1];
+  const dRe = h.re[hi * n + hi], dIm = h.im[hi * n + hi];
+
+  // Eigenvalues of [[a, b], [c, d]]: (a + d)/2 ± sqrt(((a - d)/2)^2 + bc)
+  const halfDiffRe = (aRe - dRe) / 2, halfDiffIm = (aIm - dIm) / 2;
+  const discRe = halfDiffRe * halfDiffRe - halfDiffIm * halfDiffIm + (bRe * cRe - bIm * cIm);
+  const discIm = 2 * halfDiffRe * halfDiffIm + (bRe * cIm + bIm * cRe);
+  const [sqRe, sqIm] = complexSqrt(discRe, discIm);
+  const meanRe = (aRe + dRe) / 2, meanIm = (aIm + dIm) / 2;
+
+  const plusRe = meanRe + sqRe, plusIm = meanIm + sqIm;
+  const minusRe = meanRe - sqRe, minusIm = meanIm - sqIm;
+  const distPlus = Math.hypot(plusRe - dRe, plusIm - dIm);
+  const distMinus = Math.hypot(minusRe - dRe, minusIm - dIm);
+  return distPlus < distMinus ? { re: plusRe, im: plusIm } : { re: minusRe, im: minusIm };
+}
+
+/**
+ * Shift used to break cycles when the Wilkinson shift stalls.
+ */
+function exceptionalShift(h: ComplexMatrix, hi: number): Complex {
+  const n = h.size;
+  const sub = Math.hypot(h.re[hi * n + hi - 1], h.im[hi * n + hi - 1]);
+  return { re: h.re[hi * n + hi] + 0.75 * sub, im: h.im[hi * n + hi] + 0.4375 * sub };
+}
+
+function complexSqrt(re: number, im: number): [number, number] {
+  const r = Math.hypot(re, im);
+  const sRe = Math.sqrt((r + re) / 2);
+  const sIm = Math.sqrt(Math.max(0, (r - re) / 2));
+  return [sRe, im < 0 ? -sIm : sIm];
+}
+
+/**
+ * One shifted QR step on the block lo..hi: H - μI = QR, H := RQ + μI.
+ * Only the block is updated since only eigenvalues are needed.
+ */
+function qrSweep(h: ComplexMatrix, lo: number, hi: number, shift: Complex): void {
+  const n = h.size;
+  const re = h.re;
+  const im = h.im;
+  const count = hi - lo;
+  const cs = new Float64Array(count);
+  const snRe = new Float64Array(count);
+  const snIm = new Float64Array(count);
+
+  for (let k = lo; k <= hi; k++) {
+    re[k * n + k] -= shift.re;
+    im[k * n + k] -= shift.im;
+  }
+
+  // QR: rotate rows k, k+1 to zero the subdiagonal entry H[k+1][k]
+  for (let k = lo; k < hi; k++) {
+    const xRe = re[k * n + k], xIm = im[k * n + k];
+    const yRe = re[(k + 1) * n + k], yIm = im[(k + 1) * n + k];
+    const xAbs = Math.hypot(xRe, xIm);
+    const norm = Math.hypot(xAbs, Math.hypot(yRe, yIm));
+
+    let c: number, sRe: number, sIm: number;
+    if (norm === 0) {
+      c = 1; sRe = 0; sIm = 0;
+    } else if (xAbs === 0) {
+      c = 0; sRe = 1; sIm = 0;
+    } else {
+      // s = (x / |x|) * conj(y) / norm
+      const alphaRe = xRe / xAbs, alphaIm = xIm / xAbs;
+      c = xAbs / norm;
+      sRe = (alphaRe * yRe + alphaIm * yIm) / norm;
+      sIm = (alphaIm * yRe - alphaRe * yIm) / norm;
+    }
+    cs[k - lo] = c;
+    snRe[k - lo] = sRe;
+    snIm[k - lo] = sIm;
+
+    for (let j = k; j <= hi; j++) {
+      const aRe = re[k * n + j], aIm = im[k * n + j];
+      const bRe = re[(k + 1) * n + j], bIm = im[(k + 1) * n + j];
+      // row k   := c*a + s*b
+      re[k * n + j] = c * aRe + (sRe * bRe - sIm * bIm);
+      im[k * n + j] = c * aIm + (sRe * bIm + sIm * bRe);
+      // row k+1 := -conj(s)*a + c*b
+      re[(k + 1) * n + j] = -(sRe * aRe + sIm * aIm) + c * bRe;
+      im[(k + 1) * n + j] = -(sRe * aIm - sIm * aRe) + c * bIm;
+    }
+  }
+
+  // RQ: apply the conjugate-transposed rotations to columns k, k+1
+  for (let k = lo; k < hi; k++) {
+    const c = cs[k - lo];
+    const sRe = snRe[k - lo], sIm = snIm[k - lo];
+    for (let i = lo; i <= Math.min(k + 1, hi); i++) {
+      const aRe = re[i * n + k], aIm = im[i * n + k];
+      const bRe = re[i * n + k + 1], bIm = im[i * n + k + 1];
+      // col k   := a*c + b*conj(s)
+      re[i * n + k] = aRe * c + (bRe * sRe + bIm * sIm);
+      im[i * n + k] = aIm * c + (bIm * sRe - bRe * sIm);
+      // col k+1 := -a*s + b*c
+      re[i * n + k + 1] = -(aRe * sRe - aIm * sIm) + bRe * c;
+      im[i * n + k + 1] = -(aRe * sIm + aIm * sRe) + bIm * c;
+    }
+  }
+
+  for (let k = lo; k <= hi; k++) {
+    re[k * n + k] += shift.re;
+    im[k * n + k] += shift.im;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Family transforms: derived polynomials solved in place of P(z)
+ *
+ * Applied between polynomial generation and root finding, so every sampling mode,
+ * solver and color mode works on the derived family unchanged. The output degree
+ * depends only on the input degree, which keeps batch records fixed-size.
+ */
+
+import { Complex, COMPLEX_ZERO, complexAdd, complexMultiply } from './complex';
+
+export type FamilyTransform =
+  | 'none'              // P(z)
+  | 'derivative'        // P'(z) - Gauss–Lucas: roots lie in the convex hull of P's roots
+  | 'even_part'         // P(z) + P(-z) - only even powers survive, roots symmetric under z → -z
+  | 'reciprocal'        // zⁿP(1/z) - coefficients reversed, roots inverted in the unit circle
+  | 'conjugate_product'; // P(z)·P̄(z) where P̄(z) = conj(P(z̄)) - roots of P plus their mirror images
+
+export const FAMILY_TRANSFORMS: FamilyTransform[] = [
+  'none',
+  'derivative',
+  'even_part',
+  'reciprocal',
+  'conjugate_product',
+];
+
+export const DEFAULT_FAMILY_TRANSFORM: FamilyTransform = 'none';
+
+/**
+ * Degree of the transformed polynomial (= roots per polynomial) for a given input degree.
+ */
+export const getTransformedDegree = (transform: FamilyTransform, degree: number): number => {
+  switch (transform) {
+    case 'derivative':
+      return degree - 1;
+    case 'even_part':
+      // An odd leading power cancels, leaving the highest even power
+      return degree % 2 === 0 ? degree : degree - 1;
+    case 'conjugate_product':
+      return degree * 2;
+    case 'reciprocal':
+    case 'none':
+    default:
+      return degree;
+  }
+};
+
+/**
+ * Lowest input degree a transform applies to: the derivative and the even part of a
+ * linear polynomial are constants, which have no roots.
+ */
+export const getMinimumTransformDegree = (transform: FamilyTransform): number =>
+  transform === 'derivative' || transform === 'even_part' ? 2 : 1;
+
+/**
+ * Coefficients of P'(z): i·aᵢ moved down one power.
+ */
+export const differentiatePolynomial = (coeffs: Complex[]): Complex[] => {
+  const result: Complex[] = [];
+  for (let i = 1; i < coeffs.length; i++) {
+    result.push({ re: coeffs[i].re * i, im: coeffs[i].im * i });
+  }
+  return result;
+};
+
+/**
+ * Coefficients of the transformed polynomial, [a_0, ..., a_m] with m = getTransformedDegree.
+ */
+export const applyFamilyTransform = (transform: FamilyTransform, coeffs: Complex[]): Complex[] => {
+  switch (transform) {
+    case 'derivative':
+      return differentiatePolynomial(coeffs);
+
+    case 'even_part': {
+      const degree = getTransformedDegree(transform, coeffs.length - 1);
+      const result: Complex[] = [];
+      for (let i = 0; i <= degree; i++) {
+        result.push(i % 2 === 0 ? { re: coeffs[i].re * 2, im: coeffs[i].im * 2 } : COMPLEX_ZERO);
+      }
+      return result;
+    }
+
+    case 'reciprocal':
+      return [...coeffs].reverse();
+
+    case 'conjugate_product': {
+      // Convolution of the coefficients with their conjugates
+      const n = coeffs.length - 1;
+      const result: Complex[] = new Array(2 * n + 1).fill(COMPLEX_ZERO);
+      for (let i = 0; i <= n; i++) {
+        for (let j = 0; j <= n; j++) {
+          const conjugate = { re: coeffs[j].re, im: -coeffs[j].im };
+          result[i + j] = complexAdd(result[i + j], complexMultiply(coeffs[i], conjugate));
+        }
+      }
+      return result;
+    }
+
+    case 'none':
+    default:
+      return coeffs;
+  }
+};
@@ -5,3 +5,8 @@
 export * from './complex';
 export * from './polynomial';
 export * from './roots';
+export * from './eigen';
+export * from './bigint';
+export * from './familyTransform';
+export * from './bohemian';
+export * from './doubleDouble';
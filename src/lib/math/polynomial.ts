@@ -10,33 +10,72 @@ import {
   COMPLEX_ONE,
 } from './complex';
 
+const MAX_SAFE_BIGINT = BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * Palette indices available at each power, index 0 = a₀ (length degree + 1).
+ * With the full palette at every power this is the classic coeffsLength^(degree+1) space.
+ */
+export type PositionSets = number[][];
+
+/**
+ * Number of choices per power (the digits' radices in mixed-radix indexing).
+ */
+export const getPositionRadices = (positionSets: PositionSets): number[] =>
+  positionSets.map((set) => set.length);
+
 /**
  * Generate a single polynomial by index (on-the-fly, no memory allocation for all polynomials).
- * Each polynomial is defined by choosing coefficients from a set, where the index
- * encodes which coefficient to use at each power (like a number in base `coeffs.length`).
+ * The index is a mixed-radix number with one digit per power, a₀ least significant;
+ * digit j selects an entry of positionSets[j], which in turn names a palette coefficient.
+ * Indices beyond Number.MAX_SAFE_INTEGER must be passed as bigint.
  */
 export const generatePolynomialByIndex = (
-  index: number,
-  degree: number,
+  index: number | bigint,
+  positionSets: PositionSets,
   coeffs: Complex[]
 ): Complex[] => {
   const poly: Complex[] = [];
-  let temp = index;
-  for (let j = 0; j <= degree; j++) {
-    poly.push(coeffs[temp % coeffs.length]);
-    temp = Math.floor(temp / coeffs.length);
+  if (typeof index === 'bigint' && index > MAX_SAFE_BIGINT) {
+    let temp = index;
+    for (const set of positionSets) {
+      const radix = BigInt(set.length);
+      poly.push(coeffs[set[Number(temp % radix)]]);
+      temp /= radix;
+    }
+    return poly;
+  }
+
+  let temp = Number(index);
+  for (const set of positionSets) {
+    poly.push(coeffs[set[temp % set.length]]);
+    temp = Math.floor(temp / set.length);
   }
   return poly;
 };
 
 /**
- * Calculate total number of polynomials without generating them.
- * For a given degree and number of coefficient choices, returns coeffsLength^(degree+1).
+ * Palette index chosen at each power for a polynomial index (same decoding as
+ * generatePolynomialByIndex, for display rather than evaluation).
  */
-export const getTotalPolynomials = (degree: number, coeffsLength: number): number => {
-  return Math.pow(coeffsLength, degree + 1);
+export const getPaletteIndicesByIndex = (index: bigint, positionSets: PositionSets): number[] => {
+  const indices: number[] = [];
+  let temp = index;
+  for (const set of positionSets) {
+    const radix = BigInt(set.length);
+    indices.push(set[Number(temp % radix)]);
+    temp /= radix;
+  }
+  return indices;
 };
 
+/**
+ * Calculate total number of polynomials without generating them: the product of the
+ * per-power set sizes. The count is exact: 5 coefficients at degree 25 already exceed 2^53.
+ */
+export const getTotalPolynomials = (positionSets: PositionSets): bigint =>
+  positionSets.reduce((total, set) => total * BigInt(set.length), 1n);
+
 /**
  * Evaluate polynomial at point z using direct summation.
  * P(z) = sum_{i=0}^{n} coeffs[i] * z^i
@@ -10,7 +10,10 @@ import {
   complexDivide,
   complexAbs,
   COMPLEX_ONE,
+  COMPLEX_ZERO,
+  complexFromPolar,
 } from './complex';
+import { createComplexMatrix, eigenvaluesHessenberg } from './eigen';
 
 export interface RootFindingResult {
   roots: Complex[];
@@ -22,6 +25,76 @@ const DEFAULT_TOLERANCE = 1e-6;
 const MIN_DENOMINATOR = 1e-15;
 const PERTURBATION_THRESHOLD = 1e-10;
 const PERTURBATION = { re: 1e-6, im: 1e-6 };
+// Rotation applied to warm-start guesses. Real polynomials keep real iterates real,
+// so guesses copied from real roots could never move off the axis without it.
+const WARM_START_ROTATION = complexFromPolar(1, 1e-3);
+
+export type RootSolver =
+  | 'durand_kerner'  // Weierstrass iteration, quadratic convergence
+  | 'aberth'         // Aberth-Ehrlich, cubic convergence
+  | 'companion';     // Eigenvalues of the companion matrix (QR), reference solver
+
+export const ROOT_SOLVERS: RootSolver[] = ['durand_kerner', 'aberth', 'companion'];
+
+export const DEFAULT_ROOT_SOLVER: RootSolver = 'durand_kerner';
+
+/**
+ * Find all roots of a polynomial with the selected solver.
+ * All solvers share the same RootFindingResult contract so pictures can be compared.
+ */
+export const findRoots = (
+  solver: RootSolver,
+  coeffs: Complex[],
+  maxIter: number,
+  tolerance: number = DEFAULT_TOLERANCE,
+  initialGuess?: Complex[]
+): RootFindingResult => {
+  switch (solver) {
+    case 'aberth':
+      return findRootsAberth(coeffs, maxIter, tolerance, initialGuess);
+    case 'companion':
+      // Eigenvalue solver has no initial guesses
+      return findRootsCompanion(coeffs, maxIter);
+    case 'durand_kerner':
+    default:
+      return findRootsDurandKerner(coeffs, maxIter, tolerance, initialGuess);
+  }
+};
+
+export interface WarmStartResult extends RootFindingResult {
+  warmStarted: boolean;
+}
+
+/**
+ * Find roots starting from the roots of a nearby polynomial (continuation).
+ *
+ * Polynomials with consecutive indices differ only in their low-order coefficients,
+ * so the previous roots are usually a far better starting point than a circle.
+ * Falls back to a cold start if the warm start does not converge; iterations of
+ * both attempts are reported.
+ *
+ * @param previousRoots - Converged roots of the previous polynomial, or null for a cold start
+ */
+export const findRootsWithWarmStart = (
+  solver: RootSolver,
+  coeffs: Complex[],
+  maxIter: number,
+  previousRoots: Complex[] | null
+): WarmStartResult => {
+  const degree = coeffs.length - 1;
+  if (solver === 'companion' || !previousRoots || previousRoots.length !== degree) {
+    return { ...findRoots(solver, coeffs, maxIter), warmStarted: false };
+  }
+
+  const guess = previousRoots.map((root) => complexMultiply(root, WARM_START_ROTATION));
+  const warm = findRoots(solver, coeffs, maxIter, DEFAULT_TOLERANCE, guess);
+  if (warm.converged) {
+    return { ...warm, warmStarted: true };
+  }
+
+  const cold = findRoots(solver, coeffs, maxIter);
+  return { ...cold, iterations: warm.iterations + cold.iterations, warmStarted: false };
+};
 
 /**
  * Find all roots of a polynomial using the Durand-Kerner method.
@@ -32,21 +105,166 @@ const PERTURBATION = { re: 1e-6, im: 1e-6 };
  * @param coeffs - Polynomial coefficients [a_0, a_1, ..., a_n] for a_0 + a_1*z + ... + a_n*z^n
  * @param maxIter - Maximum number of iterations
  * @param tolerance - Convergence tolerance (default 1e-6)
+ * @param initialGuess - Optional starting points (one per root), e.g. roots of a neighbouring polynomial
  */
 export const findRootsDurandKerner = (
   coeffs: Complex[],
   maxIter: number,
-  tolerance: number = DEFAULT_TOLERANCE
+  tolerance: number = DEFAULT_TOLERANCE,
+  initialGuess?: Complex[]
 ): RootFindingResult => {
+  const degree = coeffs.length - 1;
+  const trivial = getTrivialResult(coeffs);
+  if (trivial) return trivial;
+
+  // Make polynomial monic by dividing by leading coefficient
+  const leading = coeffs[degree];
+  const monicCoeffs = coeffs.map((c) => complexDivide(c, leading));
+
+  // Start from the caller's guesses when given (warm start), otherwise on a circle
+  // with adaptive radius 1 + max|a_i| for i=0..degree-1 so guesses are outside all roots
+  const roots = initialGuess && initialGuess.length === degree
+    ? [...initialGuess]
+    : initializeRootsOnCircle(degree, computeInitialRadius(monicCoeffs, degree));
+
+  // Durand-Kerner iterations
+  return iterateUntilConvergence(roots, monicCoeffs, degree, maxIter, tolerance);
+};
+
+/**
+ * Find all roots of a polynomial using the Aberth-Ehrlich method.
+ *
+ * Each root is refined with the Newton step corrected by the repulsion of the others:
+ *   w_i = P(x_i) / P'(x_i)
+ *   x_i := x_i - w_i / (1 - w_i * sum_{j≠i} 1/(x_i - x_j))
+ *
+ * @param coeffs - Polynomial coefficients [a_0, a_1, ..., a_n] for a_0 + a_1*z + ... + a_n*z^n
+ * @param maxIter - Maximum number of iterations
+ * @param tolerance - Convergence tolerance (default 1e-6)
+ * @param initialGuess - Optional starting points (one per root)
+ */
+export const findRootsAberth = (
+  coeffs: Complex[],
+  maxIter: number,
+  tolerance: number = DEFAULT_TOLERANCE,
+  initialGuess?: Complex[]
+): RootFindingResult => {
+  const degree = coeffs.length - 1;
+  const trivial = getTrivialResult(coeffs);
+  if (trivial) return trivial;
+
+  const leading = coeffs[degree];
+  const monicCoeffs = coeffs.map((c) => complexDivide(c, leading));
+  // Offset the starting angle so no initial guess sits on the real axis symmetry line
+  const roots = initialGuess && initialGuess.length === degree
+    ? [...initialGuess]
+    : initializeRootsOnCircle(degree, computeInitialRadius(monicCoeffs, degree), Math.PI / (2 * degree));
+
+  let finalIter = 0;
+  let converged = false;
+
+  for (let iter = 0; iter < maxIter; iter++) {
+    let maxChange = 0;
+    // A guess the step cannot be computed for is only settled if it is already a root;
+    // otherwise it is nudged away and the iteration does not count as converged
+    let perturbed = false;
+    const skipOrPerturb = (i: number, value: Complex) => {
+      if (complexAbs(value) < tolerance) return;
+      roots[i] = complexAdd(roots[i], PERTURBATION);
+      perturbed = true;
+    };
+
+    for (let i = 0; i < degree; i++) {
+      const xi = roots[i];
+      const { value, derivative } = evaluateHornerWithDerivative(monicCoeffs, xi, degree);
+      if (complexAbs(derivative) < MIN_DENOMINATOR) {
+        skipOrPerturb(i, value);
+        continue;
+      }
+
+      const newtonStep = complexDivide(value, derivative);
+
+      // Sum of 1/(x_i - x_j) over the other roots
+      let repulsion: Complex = COMPLEX_ZERO;
+      for (let j = 0; j < degree; j++) {
+        if (j === i) continue;
+        let diff = complexSubtract(xi, roots[j]);
+        if (complexAbs(diff) < PERTURBATION_THRESHOLD) {
+          diff = complexAdd(diff, PERTURBATION);
+        }
+        repulsion = complexAdd(repulsion, complexDivide(COMPLEX_ONE, diff));
+      }
+
+      const denom = complexSubtract(COMPLEX_ONE, complexMultiply(newtonStep, repulsion));
+      if (complexAbs(denom) < MIN_DENOMINATOR) {
+        skipOrPerturb(i, value);
+        continue;
+      }
+
+      const correction = complexDivide(newtonStep, denom);
+      const change = complexAbs(correction);
+      if (change > maxChange) maxChange = change;
+      roots[i] = complexSubtract(xi, correction);
+    }
+
+    finalIter = iter + 1;
+
+    if (maxChange < tolerance && !perturbed) {
+      converged = true;
+      break;
+    }
+  }
+
+  return { roots, converged, iterations: finalIter };
+};
+
+/**
+ * Find all roots of a polynomial as eigenvalues of its companion matrix.
+ *
+ * The companion matrix of the monic polynomial is already upper Hessenberg,
+ * so the shifted QR algorithm applies directly. Slower than the iterative
+ * methods but does not depend on initial guesses, which makes it a useful
+ * reference when checking whether an artefact is numerical.
+ *
+ * @param coeffs - Polynomial coefficients [a_0, a_1, ..., a_n] for a_0 + a_1*z + ... + a_n*z^n
+ * @param maxIter - Maximum number of QR sweeps per eigenvalue
+ */
+export const findRootsCompanion = (
+  coeffs: Complex[],
+  maxIter: number
+): RootFindingResult => {
+  const degree = coeffs.length - 1;
+  const trivial = getTrivialResult(coeffs);
+  if (trivial) return trivial;
+
+  const leading = coeffs[degree];
+  const monicCoeffs = coeffs.map((c) => complexDivide(c, leading));
+
+  // First row: -a_{n-1}, -a_{n-2}, ..., -a_0; ones on the subdiagonal
+  const matrix = createComplexMatrix(degree);
+  for (let j = 0; j < degree; j++) {
+    matrix.re[j] = -monicCoeffs[degree - 1 - j].re;
+    matrix.im[j] = -monicCoeffs[degree - 1 - j].im;
+  }
+  for (let i = 1; i < degree; i++) {
+    matrix.re[i * degree + i - 1] = 1;
+  }
+
+  const result = eigenvaluesHessenberg(matrix, maxIter);
+  return { roots: result.eigenvalues, converged: result.converged, iterations: result.iterations };
+};
+
+/**
+ * Handle degenerate polynomials shared by all solvers.
+ * Returns null when the polynomial needs a real solve.
+ */
+function getTrivialResult(coeffs: Complex[]): RootFindingResult | null {
   const degree = coeffs.length - 1;
   if (degree <= 0) {
     return { roots: [], converged: true, iterations: 0 };
   }
 
-  // Make polynomial monic by dividing by leading coefficient
-  const leading = coeffs[degree];
-  const leadingAbs = complexAbs(leading);
-  if (leadingAbs === 0) {
+  if (complexAbs(coeffs[degree]) === 0) {
     return {
       roots: Array(degree).fill({ re: 0, im: 0 }),
       converged: true,
@@ -54,18 +272,8 @@ export const findRootsDurandKerner = (
     };
   }
 
-  const monicCoeffs = coeffs.map((c) => complexDivide(c, leading));
-
-  // Compute adaptive radius: 1 + max|a_i| for i=0..degree-1
-  // This ensures initial guesses are outside all roots
-  const radius = computeInitialRadius(monicCoeffs, degree);
-
-  // Initialize roots uniformly on a circle
-  const roots = initializeRootsOnCircle(degree, radius);
-
-  // Durand-Kerner iterations
-  return iterateUntilConvergence(roots, monicCoeffs, degree, maxIter, tolerance);
-};
+  return null;
+}
 
 /**
  * Compute initial radius for root placement.
@@ -83,10 +291,10 @@ function computeInitialRadius(monicCoeffs: Complex[], degree: number): number {
 /**
  * Initialize roots uniformly distributed on a circle of given radius.
  */
-function initializeRootsOnCircle(degree: number, radius: number): Complex[] {
+function initializeRootsOnCircle(degree: number, radius: number, angleOffset: number = 0): Complex[] {
   const roots: Complex[] = [];
   for (let i = 0; i < degree; i++) {
-    const angle = (2 * Math.PI * i) / degree;
+    const angle = (2 * Math.PI * i) / degree + angleOffset;
     roots.push({
       re: radius * Math.cos(angle),
       im: radius * Math.sin(angle),
@@ -158,6 +366,23 @@ function evaluateHorner(coeffs: Complex[], z: Complex, degree: number): Complex
   return p;
 }
 
+/**
+ * Evaluate polynomial and its derivative together using Horner's method.
+ */
+function evaluateHornerWithDerivative(
+  coeffs: Complex[],
+  z: Complex,
+  degree: number
+): { value: Complex; derivative: Complex } {
+  let value = coeffs[degree];
+  let derivative: Complex = COMPLEX_ZERO;
+  for (let k = degree - 1; k >= 0; k--) {
+    derivative = complexAdd(complexMultiply(derivative, z), value);
+    value = complexAdd(complexMultiply(value, z), coeffs[k]);
+  }
+  return { value, derivative };
+}
+
 /**
  * Compute product of (xi - xj) for all j != i.
  * Applies small perturbation if roots are too close to avoid division by zero.
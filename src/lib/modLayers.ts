@@ -0,0 +1,180 @@
+/**
+ * Modulo-class layers
+ *
+ * Nearby polynomial indices have geometrically related roots, so splitting the roots by
+ * index % m shows how residue classes ("families") of polynomials fill the picture.
+ * Every residue class accumulates into its own hit-count buffer while rendering; the
+ * layers are tone-mapped separately and composited additively in their own colors, so
+ * hiding, soloing or recolouring a layer only recomposites the image.
+ */
+
+import { ToneMappingSettings, createToneMapper, getToneMapStats } from './density';
+
+export interface ModLayer {
+  // Hex color (#rrggbb) every root of the class is drawn with
+  color: string;
+  muted: boolean;
+  solo: boolean;
+}
+
+export interface ModLayersConfig {
+  enabled: boolean;
+  modulus: number;
+  // One entry per residue 0 .. modulus - 1
+  layers: ModLayer[];
+}
+
+// Hit counts of one residue class (one per canvas pixel)
+export interface ModLayerBuffer {
+  width: number;
+  height: number;
+  counts: Uint32Array;
+  maxCount: number;
+}
+
+export const MIN_MOD_LAYERS_MODULUS = 2;
+// Each layer costs 4 bytes per canvas pixel
+export const MAX_MOD_LAYERS_MODULUS = 12;
+
+const hslToHex = (hue: number, saturation: number, lightness: number): string => {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+/**
+ * Evenly spaced hues around the color wheel, one per residue.
+ */
+export const getDefaultLayerColor = (residue: number, modulus: number): string =>
+  hslToHex((360 * residue) / modulus, 0.9, 0.6);
+
+/**
+ * Layers for a modulus. Existing layers keep their mute/solo state and any color the user
+ * picked; default colors are spread again over the new modulus so hues do not repeat.
+ */
+export const resizeModLayers = (config: ModLayersConfig, modulus: number): ModLayersConfig => ({
+  ...config,
+  modulus,
+  layers: Array.from({ length: modulus }, (_, residue) => {
+    const layer = config.layers[residue];
+    const defaultColor = getDefaultLayerColor(residue, modulus);
+    if (!layer) return { color: defaultColor, muted: false, solo: false };
+    const isDefaultColor = layer.color === getDefaultLayerColor(residue, config.modulus);
+    return { ...layer, color: isDefaultColor ? defaultColor : layer.color };
+  }),
+});
+
+export const DEFAULT_MOD_LAYERS: ModLayersConfig = resizeModLayers({ enabled: false, modulus: 0, layers: [] }, 4);
+
+/**
+ * Solo wins over mute: while any layer is soloed, only soloed layers are shown.
+ */
+export const isModLayerVisible = (config: ModLayersConfig, residue: number): boolean => {
+  const layer = config.layers[residue];
+  if (!layer) return false;
+  return config.layers.some((l) => l.solo) ? layer.solo : !layer.muted;
+};
+
+export const createModLayerBuffers = (modulus: number, width: number, height: number): ModLayerBuffer[] =>
+  Array.from({ length: modulus }, () => ({
+    width,
+    height,
+    counts: new Uint32Array(width * height),
+    maxCount: 0,
+  }));
+
+export const clearModLayerBuffers = (buffers: ModLayerBuffer[]): void => {
+  for (const buffer of buffers) {
+    buffer.counts.fill(0);
+    buffer.maxCount = 0;
+  }
+};
+
+/**
+ * Add one hit to a size×size square with top-left corner (x, y), like accumulateHit.
+ */
+export const accumulateLayerHit = (buffer: ModLayerBuffer, x: number, y: number, size: number): void => {
+  const { width, height, counts } = buffer;
+  for (let py = y; py < y + size; py++) {
+    if (py < 0 || py >= height) continue;
+    for (let px = x; px < x + size; px++) {
+      if (px < 0 || px >= width) continue;
+      const count = ++counts[py * width + px];
+      if (count > buffer.maxCount) buffer.maxCount = count;
+    }
+  }
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Weighted color and brightness sums per pixel, reused between composites (one per frame while rendering)
+let compositeSums: Float32Array | null = null;
+
+/**
+ * Tone-map and composite layers into RGBA pixels.
+ *
+ * Each layer is normalized against its own counts, so sparse classes stay visible.
+ * Brightness adds up like light: where the layers' brightness sums to less than 1 the
+ * color is their brightness-weighted average, beyond that it saturates.
+ *
+ * @param residues - Which layers to include (the visible ones, or a single one for export)
+ */
+export const renderModLayersToImageData = (
+  buffers: ModLayerBuffer[],
+  config: ModLayersConfig,
+  residues: number[],
+  settings: ToneMappingSettings,
+  imageData: ImageData
+): void => {
+  const pixels = imageData.data;
+  const pixelCount = pixels.length / 4;
+  if (!compositeSums || compositeSums.length !== pixelCount * 4) {
+    compositeSums = new Float32Array(pixelCount * 4);
+  } else {
+    compositeSums.fill(0);
+  }
+  const sums = compositeSums;
+
+  for (const residue of residues) {
+    const buffer = buffers[residue];
+    if (!buffer || buffer.maxCount === 0) continue;
+    const [r, g, b] = hexToRgb(config.layers[residue].color);
+    const toneMap = createToneMapper(settings, getToneMapStats(buffer.counts, buffer.maxCount, settings.mode));
+    const counts = buffer.counts;
+    const count = Math.min(counts.length, pixelCount);
+
+    for (let i = 0; i < count; i++) {
+      if (counts[i] === 0) continue;
+      const brightness = toneMap(counts[i]);
+      const p = i * 4;
+      sums[p] += r * brightness;
+      sums[p + 1] += g * brightness;
+      sums[p + 2] += b * brightness;
+      sums[p + 3] += brightness;
+    }
+  }
+
+  for (let i = 0; i < pixelCount; i++) {
+    const p = i * 4;
+    const brightness = sums[p + 3];
+    if (brightness === 0) {
+      pixels[p] = 0;
+      pixels[p + 1] = 0;
+      pixels[p + 2] = 0;
+      pixels[p + 3] = 0;
+      continue;
+    }
+    const alpha = Math.min(1, brightness);
+    pixels[p] = Math.min(255, sums[p] / alpha);
+    pixels[p + 1] = Math.min(255, sums[p + 1] / alpha);
+    pixels[p + 2] = Math.min(255, sums[p + 2] / alpha);
+    pixels[p + 3] = alpha * 255;
+  }
+};
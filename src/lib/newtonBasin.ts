@@ -0,0 +1,135 @@
+/**
+ * Newton-basin rendering for a single polynomial
+ *
+ * Every pixel is used as a starting point for Newton's method z := z - P(z)/P'(z)
+ * and colored by the root it converges to (hue) and how many steps it took
+ * (brightness). Pixels that do not reach a root stay transparent.
+ *
+ * The viewport is processed in tiles so rendering can be spread over animation
+ * frames; a coarse pass with large pixel blocks gives quick feedback before the
+ * fine pass fills in detail.
+ */
+
+import { Complex, complexAbs, complexDivide, complexSubtract, evaluatePolynomial, evaluateDerivative } from './math';
+import { hueToRgb } from './density';
+
+export interface BasinTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Side of the square pixel block that shares one Newton evaluation
+  blockSize: number;
+}
+
+export const BASIN_MAX_ITERATIONS = 64;
+export const BASIN_TILE_SIZE = 128;
+export const BASIN_COARSE_BLOCK_SIZE = 8;
+
+// Newton has converged once a step is this small relative to |z|
+const STEP_TOLERANCE = 1e-10;
+// The converged point must be this close to a known root to count as its basin
+const ROOT_MATCH_TOLERANCE = 1e-4;
+// Newton steps from points where |P'| vanishes are meaningless
+const MIN_DERIVATIVE = 1e-14;
+
+/**
+ * Follow Newton's method from z until the steps vanish, then match the limit to the
+ * nearest known root. Returns the index of that root (or -1) and the number of steps taken.
+ */
+export const findNewtonBasin = (
+  coeffs: Complex[],
+  roots: Complex[],
+  start: Complex,
+  maxIterations: number
+): { rootIndex: number; iterations: number } => {
+  let z = start;
+  for (let iter = 0; iter < maxIterations; iter++) {
+    const derivative = evaluateDerivative(coeffs, z);
+    if (complexAbs(derivative) < MIN_DERIVATIVE) break;
+
+    const step = complexDivide(evaluatePolynomial(coeffs, z), derivative);
+    z = complexSubtract(z, step);
+    if (!isFinite(z.re) || !isFinite(z.im)) break;
+
+    if (complexAbs(step) < STEP_TOLERANCE * (1 + complexAbs(z))) {
+      let nearest = -1;
+      let nearestDistance = Infinity;
+      for (let r = 0; r < roots.length; r++) {
+        const distance = complexAbs(complexSubtract(z, roots[r]));
+        if (distance < nearestDistance) {
+          nearest = r;
+          nearestDistance = distance;
+        }
+      }
+      const matched = nearest >= 0 && nearestDistance < ROOT_MATCH_TOLERANCE * (1 + complexAbs(z));
+      return { rootIndex: matched ? nearest : -1, iterations: iter + 1 };
+    }
+  }
+  return { rootIndex: -1, iterations: maxIterations };
+};
+
+/**
+ * Split a width×height viewport into tiles for one pass.
+ */
+export const getBasinTiles = (width: number, height: number, blockSize: number): BasinTile[] => {
+  const tiles: BasinTile[] = [];
+  for (let y = 0; y < height; y += BASIN_TILE_SIZE) {
+    for (let x = 0; x < width; x += BASIN_TILE_SIZE) {
+      tiles.push({
+        x,
+        y,
+        width: Math.min(BASIN_TILE_SIZE, width - x),
+        height: Math.min(BASIN_TILE_SIZE, height - y),
+        blockSize,
+      });
+    }
+  }
+  return tiles;
+};
+
+/**
+ * Compute one tile into an ImageData of the tile's size.
+ *
+ * @param toComplex - Maps canvas pixel coordinates to the complex plane (viewport transform)
+ */
+export const renderBasinTile = (
+  coeffs: Complex[],
+  roots: Complex[],
+  tile: BasinTile,
+  toComplex: (x: number, y: number) => Complex,
+  maxIterations: number,
+  imageData: ImageData
+): void => {
+  const pixels = imageData.data;
+  const { blockSize } = tile;
+  const rootColors = roots.map((_, i) => hueToRgb((i * 360) / roots.length));
+
+  for (let by = 0; by < tile.height; by += blockSize) {
+    for (let bx = 0; bx < tile.width; bx += blockSize) {
+      // Sample the block center
+      const start = toComplex(tile.x + bx + blockSize / 2, tile.y + by + blockSize / 2);
+      const { rootIndex, iterations } = findNewtonBasin(coeffs, roots, start, maxIterations);
+
+      let r = 0, g = 0, b = 0, a = 0;
+      if (rootIndex >= 0) {
+        const shade = Math.max(0.15, 1 - iterations / maxIterations);
+        [r, g, b] = rootColors[rootIndex];
+        r *= shade;
+        g *= shade;
+        b *= shade;
+        a = 255;
+      }
+
+      for (let py = by; py < Math.min(by + blockSize, tile.height); py++) {
+        for (let px = bx; px < Math.min(bx + blockSize, tile.width); px++) {
+          const p = (py * tile.width + px) * 4;
+          pixels[p] = r;
+          pixels[p + 1] = g;
+          pixels[p + 2] = b;
+          pixels[p + 3] = a;
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,106 @@
+/**
+ * PNG text chunks
+ *
+ * A PNG is an 8-byte signature followed by chunks: u32 length, 4-byte type, data,
+ * u32 CRC of type + data (all big-endian). Text metadata lives in tEXt (Latin-1)
+ * and iTXt (UTF-8) chunks. Canvas.toBlob writes neither, so metadata is spliced in
+ * after encoding, directly behind the IHDR chunk where readers find it first.
+ */
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const isPng = (bytes: Uint8Array): boolean =>
+  bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+const latin1Decoder = new TextDecoder('latin1');
+const latin1 = (bytes: Uint8Array): string => latin1Decoder.decode(bytes);
+
+/**
+ * Build an uncompressed iTXt chunk (keyword: 1-79 Latin-1 characters).
+ */
+const createITxtChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const keywordBytes = Uint8Array.from(keyword, (c) => c.charCodeAt(0));
+  const textBytes = encoder.encode(text);
+  // keyword \0, compression flag 0, compression method 0, empty language tag \0, empty translated keyword \0
+  const data = new Uint8Array(keywordBytes.length + 5 + textBytes.length);
+  data.set(keywordBytes, 0);
+  data.set(textBytes, keywordBytes.length + 5);
+
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode('iTXt'), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/**
+ * Insert a UTF-8 text entry into an encoded PNG. Returns null if the input is not a PNG.
+ */
+export const addPngText = (png: ArrayBuffer, keyword: string, text: string): Uint8Array | null => {
+  const bytes = new Uint8Array(png);
+  if (!isPng(bytes)) return null;
+
+  // IHDR is always the first chunk
+  const ihdrEnd = PNG_SIGNATURE.length + 12 + new DataView(png).getUint32(PNG_SIGNATURE.length);
+  const chunk = createITxtChunk(keyword, text);
+  const result = new Uint8Array(bytes.length + chunk.length);
+  result.set(bytes.subarray(0, ihdrEnd), 0);
+  result.set(chunk, ihdrEnd);
+  result.set(bytes.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return result;
+};
+
+/**
+ * Read the tEXt and uncompressed iTXt entries of a PNG (keyword → text).
+ * Returns null if the input is not a PNG.
+ */
+export const readPngText = (png: ArrayBuffer): Record<string, string> | null => {
+  const bytes = new Uint8Array(png);
+  if (!isPng(bytes)) return null;
+
+  const view = new DataView(png);
+  const decoder = new TextDecoder();
+  const entries: Record<string, string> = {};
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, Math.min(offset + 8 + length, bytes.length));
+    if (type === 'IEND') break;
+
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd > 0) {
+      const keyword = latin1(data.subarray(0, keywordEnd));
+      if (type === 'tEXt') {
+        entries[keyword] = latin1(data.subarray(keywordEnd + 1));
+      } else if (type === 'iTXt' && data[keywordEnd + 1] === 0) {
+        // Skip compression flag and method, then the language tag and translated keyword
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+        if (translatedEnd >= 0) entries[keyword] = decoder.decode(data.subarray(translatedEnd + 1));
+      }
+    }
+    offset += 12 + length;
+  }
+  return entries;
+};
@@ -0,0 +1,6 @@
+/**
+ * What the canvas draws and how the drawn points are colored
+ */
+
+export type ColorMode = 'by_index' | 'by_leading_coeff';
+export type RenderMode = 'roots' | 'newton_basin' | 'dragon' | 'bohemian';
@@ -0,0 +1,50 @@
+/**
+ * Render progress that survives a reload
+ *
+ * Long renders can be paused and refined with extra passes of polynomials (see the
+ * refinement passes in sampling). The state of the latest render is kept in
+ * localStorage under its points key, so reopening the tab with the same parameters
+ * restores the refinement passes and, if the render was paused, pauses it again at the
+ * same batch. The batches drawn before the reload come back from the root cache.
+ */
+
+import { z } from 'zod';
+
+export interface RenderProgress {
+  // Points key of the render (everything that decides which roots it draws)
+  key: string;
+  // Refinement passes after the first
+  passes: number;
+  // Batches drawn so far, in order
+  drawnBatches: number;
+  paused: boolean;
+}
+
+const RENDER_PROGRESS_STORAGE_KEY = 'littlewood-render-progress';
+// Least time between saves while a render runs (ms)
+export const RENDER_PROGRESS_SAVE_INTERVAL = 1000;
+
+const renderProgressSchema = z.object({
+  key: z.string(),
+  passes: z.number().int().nonnegative(),
+  drawnBatches: z.number().int().nonnegative(),
+  paused: z.boolean(),
+});
+
+export const loadRenderProgress = (): RenderProgress | null => {
+  try {
+    const result = renderProgressSchema.safeParse(JSON.parse(localStorage.getItem(RENDER_PROGRESS_STORAGE_KEY) ?? 'null'));
+    return result.success ? (result.data as RenderProgress) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveRenderProgress = (progress: RenderProgress): boolean => {
+  try {
+    localStorage.setItem(RENDER_PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+    return true;
+  } catch {
+    return false;
+  }
+};
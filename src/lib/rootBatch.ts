@@ -0,0 +1,239 @@
+/**
+ * Batch root computation
+ *
+ * A batch is a contiguous range of sampling-local indices (the same range one
+ * animation frame used to process on the main thread). Results are packed into
+ * a single Float64Array so they can be transferred from a worker without copying.
+ *
+ * Record layout (one record per valid polynomial, in local index order):
+ *   [localIndex, converged (0/1), iterations, re_0, im_0, re_1, im_1, ...]
+ *
+ * Records carry the sampling-local index rather than the polynomial index: local
+ * indices are always exact in a double, while polynomial indices may exceed 2^53.
+ * Use getPolynomialIndex with the batch's sampling parameters to recover it.
+ *
+ * With an evaluation point set, the batch produces the value P(z) instead of the
+ * roots: one point per polynomial with converged = 1 and iterations = 0, so the
+ * "dragon" set {P(z)} flows through the same drawing pipeline as roots.
+ *
+ * With a Bohemian config set, the decoded coefficients are the free entries of a
+ * matrix and the records hold its eigenvalues (one per matrix dimension).
+ *
+ * With a precision window set (deep zoom), points are stored relative to the window
+ * center, and roots inside the window are first polished in double-double: absolute
+ * coordinates near the unit circle cannot resolve a pixel at such zooms, relative
+ * ones can.
+ */
+
+import {
+  BohemianConfig,
+  Complex,
+  FamilyTransform,
+  PositionSets,
+  RootSolver,
+  bigIntAbs,
+  complexDDFromComplex,
+  ddFromNumber,
+  ddSubtract,
+  ddToNumber,
+  evaluatePolynomial,
+  evaluatePolynomialDD,
+  polishRootsDD,
+  generatePolynomialByIndex,
+  findRootsWithWarmStart,
+  applyFamilyTransform,
+  getBohemianEigenvalues,
+  getTransformedDegree,
+} from './math';
+import { SamplingConfig, getPolynomialIndex } from './sampling';
+
+export interface PrecisionWindow {
+  // Origin of the stored coordinates (the view center)
+  center: Complex;
+  // Roots closer than this to the center are polished
+  radius: number;
+}
+
+export interface RootBatchRequest {
+  renderId: number;
+  batchIndex: number;
+  // First sampling-local index of this batch and how many local indices it covers
+  startLocalIndex: number;
+  count: number;
+  skipInterval: bigint;
+  samplingConfig: SamplingConfig;
+  totalPolynomials: bigint;
+  positionSets: PositionSets;
+  coefficients: Complex[];
+  maxRoots: number;
+  maxIterations: number;
+  solver: RootSolver;
+  familyTransform: FamilyTransform;
+  // Plot P(z) at this point instead of solving for roots
+  evaluationPoint: Complex | null;
+  // Plot eigenvalues of Bohemian matrices instead of polynomial roots
+  bohemian: BohemianConfig | null;
+  // Extended precision for deep zoom; coordinates become relative to its center
+  precision: PrecisionWindow | null;
+}
+
+export interface RootBatchResult {
+  renderId: number;
+  batchIndex: number;
+  polynomialCount: number;
+  rootsPerPolynomial: number;
+  // How many polynomials were solved starting from the previous polynomial's roots
+  warmStartedCount: number;
+  // Point the coordinates are relative to (the precision window center), or null if absolute
+  origin: Complex | null;
+  data: Float64Array;
+}
+
+// Worker reply for a batch that threw; the pool resolves it as null
+export interface RootBatchError {
+  renderId: number;
+  batchIndex: number;
+  error: string;
+}
+
+export const ROOT_RECORD_HEADER = 3;
+
+/**
+ * Largest index step for which the previous polynomial's roots are reused as initial guesses.
+ * Within this distance only a₀ and a₁ change (plus occasional carries), so roots move little.
+ */
+export const getWarmStartMaxStep = (positionSets: PositionSets): number =>
+  positionSets[0].length * (positionSets[1]?.length ?? 1);
+
+export const getRootRecordStride = (rootsPerPolynomial: number): number =>
+  ROOT_RECORD_HEADER + rootsPerPolynomial * 2;
+
+/**
+ * Solve every polynomial of a batch and pack the roots.
+ * Indices that the sampling strategy rejects (-1 or out of range) produce no record.
+ */
+export const computeRootBatch = (request: RootBatchRequest): RootBatchResult => {
+  const {
+    renderId,
+    batchIndex,
+    startLocalIndex,
+    count,
+    skipInterval,
+    samplingConfig,
+    totalPolynomials,
+    positionSets,
+    coefficients,
+    maxRoots,
+    maxIterations,
+    solver,
+    familyTransform,
+    evaluationPoint,
+    bohemian,
+    precision,
+  } = request;
+  const originRe = precision ? precision.center.re : 0;
+  const originIm = precision ? precision.center.im : 0;
+
+  const rootsPerPolynomial = evaluationPoint
+    ? 1
+    : bohemian
+      ? bohemian.size
+      : getTransformedDegree(familyTransform, positionSets.length - 1);
+  const stride = getRootRecordStride(rootsPerPolynomial);
+  const data = new Float64Array(count * stride);
+  let polynomialCount = 0;
+  let warmStartedCount = 0;
+  const warmStartMaxStep = BigInt(getWarmStartMaxStep(positionSets));
+  // Consecutive Gray-code positions always differ in a single coefficient
+  const isGrayOrder = samplingConfig.mode === 'gray' && isFinite(maxRoots);
+  let previousIndex = -1n;
+  let previousRoots: Complex[] | null = null;
+
+  for (let localIndex = startLocalIndex; localIndex < startLocalIndex + count; localIndex++) {
+    const polynomialIndex = getPolynomialIndex(
+      localIndex,
+      skipInterval,
+      samplingConfig,
+      totalPolynomials,
+      positionSets,
+      maxRoots,
+      rootsPerPolynomial
+    );
+    if (polynomialIndex < 0n || polynomialIndex >= totalPolynomials) continue;
+
+    const offset = polynomialCount * stride;
+    data[offset] = localIndex;
+
+    if (bohemian) {
+      const entries = generatePolynomialByIndex(polynomialIndex, positionSets, coefficients);
+      const result = getBohemianEigenvalues(bohemian, entries, maxIterations);
+      data[offset + 1] = result.converged ? 1 : 0;
+      data[offset + 2] = result.iterations;
+      for (let r = 0; r < result.eigenvalues.length; r++) {
+        data[offset + ROOT_RECORD_HEADER + r * 2] = result.eigenvalues[r].re - originRe;
+        data[offset + ROOT_RECORD_HEADER + r * 2 + 1] = result.eigenvalues[r].im - originIm;
+      }
+      polynomialCount++;
+      continue;
+    }
+
+    const poly = applyFamilyTransform(
+      familyTransform,
+      generatePolynomialByIndex(polynomialIndex, positionSets, coefficients)
+    );
+
+    if (evaluationPoint) {
+      data[offset + 1] = 1;
+      data[offset + 2] = 0;
+      if (precision) {
+        const value = evaluatePolynomialDD(poly, complexDDFromComplex(evaluationPoint));
+        data[offset + ROOT_RECORD_HEADER] = ddToNumber(ddSubtract(value.re, ddFromNumber(originRe)));
+        data[offset + ROOT_RECORD_HEADER + 1] = ddToNumber(ddSubtract(value.im, ddFromNumber(originIm)));
+      } else {
+        const value = evaluatePolynomial(poly, evaluationPoint);
+        data[offset + ROOT_RECORD_HEADER] = value.re;
+        data[offset + ROOT_RECORD_HEADER + 1] = value.im;
+      }
+      polynomialCount++;
+      continue;
+    }
+
+    const isNearPrevious = previousIndex >= 0n &&
+      (isGrayOrder || bigIntAbs(polynomialIndex - previousIndex) <= warmStartMaxStep);
+    const result = findRootsWithWarmStart(solver, poly, maxIterations, isNearPrevious ? previousRoots : null);
+    if (result.warmStarted) warmStartedCount++;
+    previousIndex = polynomialIndex;
+    previousRoots = result.converged ? result.roots : null;
+
+    data[offset + 1] = result.converged ? 1 : 0;
+    data[offset + 2] = result.iterations;
+    if (precision && result.converged) {
+      const selected = result.roots.map((root) => Math.hypot(root.re - originRe, root.im - originIm) < precision.radius);
+      if (selected.some(Boolean)) {
+        const polished = polishRootsDD(poly, result.roots, selected);
+        for (let r = 0; r < polished.length; r++) {
+          data[offset + ROOT_RECORD_HEADER + r * 2] = ddToNumber(ddSubtract(polished[r].re, ddFromNumber(originRe)));
+          data[offset + ROOT_RECORD_HEADER + r * 2 + 1] = ddToNumber(ddSubtract(polished[r].im, ddFromNumber(originIm)));
+        }
+        polynomialCount++;
+        continue;
+      }
+    }
+    for (let r = 0; r < result.roots.length; r++) {
+      data[offset + ROOT_RECORD_HEADER + r * 2] = result.roots[r].re - originRe;
+      data[offset + ROOT_RECORD_HEADER + r * 2 + 1] = result.roots[r].im - originIm;
+    }
+    polynomialCount++;
+  }
+
+  return {
+    renderId,
+    batchIndex,
+    polynomialCount,
+    rootsPerPolynomial,
+    warmStartedCount,
+    origin: precision ? precision.center : null,
+    // Trim to the records actually written so the transfer stays small
+    data: data.slice(0, polynomialCount * stride),
+  };
+};
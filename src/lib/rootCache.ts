@@ -0,0 +1,253 @@
+/**
+ * Persistent root cache in IndexedDB
+ *
+ * Solved root batches (see rootBatch) outlive the page: they are stored under a hash of
+ * everything that decides which roots a batch holds (degree, coefficients, solver
+ * settings, the sampling index sequence and the batch size), so reopening a link
+ * draws the batches already solved at once and only solves the rest. Each hash is an
+ * entry; when the cache grows past its budget, the least recently used entries go.
+ *
+ * Every operation may fail (private browsing, storage full, no IndexedDB): callers
+ * treat a failure as a cache miss.
+ */
+
+import { z } from 'zod';
+import { RootBatchResult } from './rootBatch';
+
+export interface RootCacheSettings {
+  enabled: boolean;
+  budgetBytes: number;
+}
+
+// One cached parameter set
+export interface RootCacheEntry {
+  hash: string;
+  // Short description of the parameters, for the settings page
+  label: string;
+  batchCount: number;
+  storedBatches: number;
+  bytes: number;
+  lastUsed: number;
+}
+
+// Stored batch record (the parts of a RootBatchResult that do not depend on the render)
+interface RootCacheChunk {
+  hash: string;
+  batchIndex: number;
+  polynomialCount: number;
+  rootsPerPolynomial: number;
+  warmStartedCount: number;
+  data: Float64Array;
+}
+
+const DB_NAME = 'littlewood-root-cache';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const CHUNKS_STORE = 'chunks';
+const SETTINGS_STORAGE_KEY = 'littlewood-root-cache-settings';
+
+export const ROOT_CACHE_BUDGET_OPTIONS = [128, 256, 512, 1024, 2048].map((megabytes) => megabytes * 1024 * 1024);
+
+export const DEFAULT_ROOT_CACHE_SETTINGS: RootCacheSettings = {
+  enabled: true,
+  budgetBytes: 512 * 1024 * 1024,
+};
+
+const settingsSchema = z.object({
+  enabled: z.boolean(),
+  budgetBytes: z.number().int().positive(),
+});
+
+export const loadRootCacheSettings = (): RootCacheSettings => {
+  try {
+    const result = settingsSchema.safeParse(JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? 'null'));
+    return result.success ? (result.data as RootCacheSettings) : DEFAULT_ROOT_CACHE_SETTINGS;
+  } catch {
+    return DEFAULT_ROOT_CACHE_SETTINGS;
+  }
+};
+
+export const saveRootCacheSettings = (settings: RootCacheSettings): boolean => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+/**
+ * SHA-256 (hex) of a parameter key.
+ */
+export const hashRootCacheKey = async (key: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'hash' });
+        db.createObjectStore(CHUNKS_STORE, { keyPath: ['hash', 'batchIndex'] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const entryChunksRange = (hash: string): IDBKeyRange => IDBKeyRange.bound([hash, 0], [hash, Infinity]);
+
+/**
+ * Indices of the cached batches of a hash (empty if there are none). Marks the entry as used.
+ */
+export const openRootCacheEntry = async (hash: string): Promise<Set<number>> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES_STORE, CHUNKS_STORE], 'readwrite');
+  const entries = transaction.objectStore(ENTRIES_STORE);
+  const entry = await requestToPromise(entries.get(hash) as IDBRequest<RootCacheEntry | undefined>);
+  if (!entry) {
+    await transactionDone(transaction);
+    return new Set();
+  }
+  entries.put({ ...entry, lastUsed: Date.now() });
+  const keys = await requestToPromise(transaction.objectStore(CHUNKS_STORE).getAllKeys(entryChunksRange(hash)));
+  await transactionDone(transaction);
+  return new Set(keys.map((key) => (key as [string, number])[1]));
+};
+
+/**
+ * One cached batch, or null if it is not (or no longer) there.
+ */
+export const readRootCacheBatch = async (hash: string, batchIndex: number, renderId: number): Promise<RootBatchResult | null> => {
+  const db = await openDatabase();
+  const chunk = await requestToPromise(
+    db.transaction(CHUNKS_STORE).objectStore(CHUNKS_STORE).get([hash, batchIndex]) as IDBRequest<RootCacheChunk | undefined>
+  );
+  if (!chunk) return null;
+  return {
+    renderId,
+    batchIndex,
+    polynomialCount: chunk.polynomialCount,
+    rootsPerPolynomial: chunk.rootsPerPolynomial,
+    warmStartedCount: chunk.warmStartedCount,
+    origin: null,
+    data: chunk.data,
+  };
+};
+
+/**
+ * Add a solved batch to the entry of a hash (creating the entry). Batches that would
+ * make the entry alone exceed the budget are not written.
+ */
+export const writeRootCacheBatch = async (
+  hash: string,
+  label: string,
+  batchCount: number,
+  batch: RootBatchResult,
+  budgetBytes: number
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES_STORE, CHUNKS_STORE], 'readwrite');
+  const entries = transaction.objectStore(ENTRIES_STORE);
+  const chunks = transaction.objectStore(CHUNKS_STORE);
+
+  const entry = (await requestToPromise(entries.get(hash) as IDBRequest<RootCacheEntry | undefined>)) ??
+    { hash, label, batchCount, storedBatches: 0, bytes: 0, lastUsed: Date.now() };
+  const existing = await requestToPromise(chunks.getKey([hash, batch.batchIndex]));
+  if (existing === undefined && entry.bytes + batch.data.byteLength <= budgetBytes) {
+    const chunk: RootCacheChunk = {
+      hash,
+      batchIndex: batch.batchIndex,
+      polynomialCount: batch.polynomialCount,
+      rootsPerPolynomial: batch.rootsPerPolynomial,
+      warmStartedCount: batch.warmStartedCount,
+      data: batch.data,
+    };
+    chunks.put(chunk);
+    entries.put({
+      ...entry,
+      // Refinement passes add batches to the same parameter set
+      batchCount: Math.max(entry.batchCount, batchCount),
+      storedBatches: entry.storedBatches + 1,
+      bytes: entry.bytes + batch.data.byteLength,
+      lastUsed: Date.now(),
+    });
+  }
+  await transactionDone(transaction);
+};
+
+/**
+ * All entries, most recently used first.
+ */
+export const listRootCacheEntries = async (): Promise<RootCacheEntry[]> => {
+  const db = await openDatabase();
+  const entries = await requestToPromise(
+    db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll() as IDBRequest<RootCacheEntry[]>
+  );
+  return entries.sort((a, b) => b.lastUsed - a.lastUsed);
+};
+
+export const deleteRootCacheEntry = async (hash: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES_STORE, CHUNKS_STORE], 'readwrite');
+  transaction.objectStore(ENTRIES_STORE).delete(hash);
+  transaction.objectStore(CHUNKS_STORE).delete(entryChunksRange(hash));
+  await transactionDone(transaction);
+};
+
+export const clearRootCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES_STORE, CHUNKS_STORE], 'readwrite');
+  transaction.objectStore(ENTRIES_STORE).clear();
+  transaction.objectStore(CHUNKS_STORE).clear();
+  await transactionDone(transaction);
+};
+
+/**
+ * Delete least recently used entries until the cache fits the budget. The entry being
+ * rendered (keepHash) is never evicted. Returns the number of entries deleted.
+ */
+export const evictRootCache = async (budgetBytes: number, keepHash?: string): Promise<number> => {
+  const entries = await listRootCacheEntries();
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  let evicted = 0;
+
+  for (let i = entries.length - 1; i >= 0 && totalBytes > budgetBytes; i--) {
+    if (entries[i].hash === keepHash) continue;
+    await deleteRootCacheEntry(entries[i].hash);
+    totalBytes -= entries[i].bytes;
+    evicted++;
+  }
+  return evicted;
+};
@@ -0,0 +1,254 @@
+/**
+ * Root set export (CSV, JSON Lines, packed binary)
+ *
+ * The export recomputes the current render's batches with the same sampling
+ * parameters, so it contains exactly the roots the render produced, including
+ * those of polynomials that did not converge (flagged) and those off screen.
+ * Batches are encoded and written one at a time in index order, with only a few
+ * in flight, so memory use does not grow with the size of the export.
+ *
+ * Columns: polynomial_index, root_index, re, im, iterations, converged
+ *
+ * Binary layout (little-endian):
+ *   header (32 bytes): magic "LWROOTS1", u32 version, u32 column count (6),
+ *     f64 row count, u32 roots per polynomial, u32 flags (bit 0: indices exact)
+ *   rows: 6 × f64 per root in column order. Polynomial indices above 2^53 are
+ *     rounded in this format; CSV and JSON Lines keep them exact.
+ *
+ * In Python: np.fromfile(path, dtype='<f8', offset=32).reshape(-1, 6)
+ */
+
+import { RootBatchRequest, RootBatchResult, ROOT_RECORD_HEADER, getRootRecordStride } from './rootBatch';
+import { RootWorkerPool } from './rootWorkerPool';
+
+export type RootExportFormat = 'csv' | 'ndjson' | 'binary';
+
+export const ROOT_EXPORT_FORMATS: RootExportFormat[] = ['csv', 'ndjson', 'binary'];
+
+export const ROOT_EXPORT_COLUMNS = ['polynomial_index', 'root_index', 're', 'im', 'iterations', 'converged'];
+
+export const ROOT_EXPORT_EXTENSIONS: Record<RootExportFormat, string> = {
+  csv: 'csv',
+  ndjson: 'ndjson',
+  binary: 'f64',
+};
+
+const MIME_TYPES: Record<RootExportFormat, string> = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+  binary: 'application/octet-stream',
+};
+
+const BINARY_MAGIC = 'LWROOTS1';
+const BINARY_VERSION = 1;
+export const BINARY_HEADER_BYTES = 32;
+
+type ExportChunk = string | ArrayBuffer;
+
+/**
+ * Header of the binary format. The row count is only known at the end, so the
+ * header is written last (or patched in place when streaming to a file).
+ */
+export const encodeBinaryHeader = (rowCount: number, rootsPerPolynomial: number, exactIndices: boolean): ArrayBuffer => {
+  const buffer = new ArrayBuffer(BINARY_HEADER_BYTES);
+  const view = new DataView(buffer);
+  for (let i = 0; i < BINARY_MAGIC.length; i++) {
+    view.setUint8(i, BINARY_MAGIC.charCodeAt(i));
+  }
+  view.setUint32(8, BINARY_VERSION, true);
+  view.setUint32(12, ROOT_EXPORT_COLUMNS.length, true);
+  view.setFloat64(16, rowCount, true);
+  view.setUint32(24, rootsPerPolynomial, true);
+  view.setUint32(28, exactIndices ? 1 : 0, true);
+  return buffer;
+};
+
+/**
+ * Encode one batch result. polynomialIndexOf maps a record's local index to its polynomial index.
+ */
+export const encodeRootBatch = (
+  format: RootExportFormat,
+  batch: RootBatchResult,
+  polynomialIndexOf: (localIndex: number) => bigint
+): { chunk: ExportChunk; rows: number } => {
+  const stride = getRootRecordStride(batch.rootsPerPolynomial);
+  const data = batch.data;
+  const rows = batch.polynomialCount * batch.rootsPerPolynomial;
+  // Deep-zoom batches store coordinates relative to an origin; files hold absolute ones
+  const originRe = batch.origin?.re ?? 0;
+  const originIm = batch.origin?.im ?? 0;
+
+  if (format === 'binary') {
+    const out = new Float64Array(rows * ROOT_EXPORT_COLUMNS.length);
+    let o = 0;
+    for (let p = 0; p < batch.polynomialCount; p++) {
+      const offset = p * stride;
+      const polynomialIndex = Number(polynomialIndexOf(data[offset]));
+      for (let r = 0; r < batch.rootsPerPolynomial; r++) {
+        out[o++] = polynomialIndex;
+        out[o++] = r;
+        out[o++] = data[offset + ROOT_RECORD_HEADER + r * 2] + originRe;
+        out[o++] = data[offset + ROOT_RECORD_HEADER + r * 2 + 1] + originIm;
+        out[o++] = data[offset + 2];
+        out[o++] = data[offset + 1];
+      }
+    }
+    // Float64Array uses platform byte order, which is little-endian on every browser platform
+    return { chunk: out.buffer, rows };
+  }
+
+  const lines: string[] = [];
+  for (let p = 0; p < batch.polynomialCount; p++) {
+    const offset = p * stride;
+    const polynomialIndex = polynomialIndexOf(data[offset]).toString();
+    const iterations = data[offset + 2];
+    const converged = data[offset + 1] === 1;
+    for (let r = 0; r < batch.rootsPerPolynomial; r++) {
+      const re = data[offset + ROOT_RECORD_HEADER + r * 2] + originRe;
+      const im = data[offset + ROOT_RECORD_HEADER + r * 2 + 1] + originIm;
+      lines.push(format === 'csv'
+        ? `${polynomialIndex},${r},${re},${im},${iterations},${converged ? 1 : 0}`
+        // Non-finite values are not valid JSON numbers
+        : `{"polynomial_index":"${polynomialIndex}","root_index":${r},"re":${isFinite(re) ? re : null},"im":${isFinite(im) ? im : null},"iterations":${iterations},"converged":${converged}}`);
+    }
+  }
+  return { chunk: lines.length > 0 ? lines.join('\n') + '\n' : '', rows };
+};
+
+interface ExportSink {
+  write: (chunk: ExportChunk) => Promise<void>;
+  // Finish the file; the binary header is supplied once the row count is known
+  close: (binaryHeader: ArrayBuffer | null) => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+// Minimal typing of the File System Access API (Chromium only)
+interface FileSystemWritable {
+  write: (data: ExportChunk | { type: 'write'; position: number; data: ExportChunk }) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<{ createWritable: () => Promise<FileSystemWritable> }>;
+
+/**
+ * Stream to a file chosen by the user when the browser supports it; otherwise collect
+ * the chunks as Blob parts (which the browser may keep on disk) and download at the end.
+ */
+const createExportSink = async (format: RootExportFormat, filename: string): Promise<ExportSink | null> => {
+  const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (picker) {
+    let handle;
+    try {
+      handle = await picker({ suggestedName: filename });
+    } catch {
+      return null; // User dismissed the dialog
+    }
+    const writable = await handle.createWritable();
+    // Reserve room for the header, patched in close()
+    if (format === 'binary') await writable.write(new ArrayBuffer(BINARY_HEADER_BYTES));
+    return {
+      write: (chunk) => writable.write(chunk),
+      close: async (binaryHeader) => {
+        if (binaryHeader) await writable.write({ type: 'write', position: 0, data: binaryHeader });
+        await writable.close();
+      },
+      abort: () => writable.abort(),
+    };
+  }
+
+  const parts: Blob[] = [];
+  return {
+    write: async (chunk) => {
+      parts.push(new Blob([chunk]));
+    },
+    close: async (binaryHeader) => {
+      const blob = new Blob(binaryHeader ? [binaryHeader, ...parts] : parts, { type: MIME_TYPES[format] });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    abort: async () => {
+      parts.length = 0;
+    },
+  };
+};
+
+export interface RootExportOptions {
+  format: RootExportFormat;
+  filename: string;
+  pool: RootWorkerPool;
+  // Render id used for the export's batches (must not collide with a canvas render)
+  renderId: number;
+  batchCount: number;
+  createRequest: (renderId: number, batchIndex: number) => RootBatchRequest;
+  polynomialIndexOf: (localIndex: number) => bigint;
+  rootsPerPolynomial: number;
+  exactIndices: boolean;
+  onProgress?: (progress: number, rows: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run the export. Resolves with the number of rows written, or null if it was
+ * cancelled (by the signal or by dismissing the save dialog).
+ */
+export const runRootExport = async (options: RootExportOptions): Promise<number | null> => {
+  const {
+    format,
+    filename,
+    pool,
+    renderId,
+    batchCount,
+    createRequest,
+    polynomialIndexOf,
+    rootsPerPolynomial,
+    exactIndices,
+    onProgress,
+    signal,
+  } = options;
+
+  const sink = await createExportSink(format, filename);
+  if (!sink) return null;
+
+  if (format === 'csv') await sink.write(ROOT_EXPORT_COLUMNS.join(',') + '\n');
+
+  // Keep a bounded window of batches in flight and write them in order
+  const maxInFlight = pool.size * 2;
+  const pending = new Map<number, Promise<RootBatchResult | null>>();
+  let nextToSubmit = 0;
+  let rows = 0;
+
+  try {
+    for (let batchIndex = 0; batchIndex < batchCount; batchIndex++) {
+      while (nextToSubmit < batchCount && pending.size < maxInFlight) {
+        pending.set(nextToSubmit, pool.submit(createRequest(renderId, nextToSubmit)));
+        nextToSubmit++;
+      }
+
+      const result = await pending.get(batchIndex)!;
+      pending.delete(batchIndex);
+      if (signal?.aborted) {
+        pool.cancel(renderId);
+        await sink.abort();
+        return null;
+      }
+      // Not cancelled, so the batch failed (the pool logs why)
+      if (!result) throw new Error(`Batch ${batchIndex} could not be computed`);
+
+      const { chunk, rows: batchRows } = encodeRootBatch(format, result, polynomialIndexOf);
+      await sink.write(chunk);
+      rows += batchRows;
+      onProgress?.(((batchIndex + 1) / batchCount) * 100, rows);
+    }
+
+    await sink.close(format === 'binary' ? encodeBinaryHeader(rows, rootsPerPolynomial, exactIndices) : null);
+    return rows;
+  } catch (error) {
+    pool.cancel(renderId);
+    await sink.abort();
+    throw error;
+  }
+};
@@ -0,0 +1,195 @@
+/**
+ * Spatial index of recently drawn roots
+ *
+ * Roots are kept in a fixed-size ring buffer (complex-plane coordinates plus the
+ * polynomial index and root number) and bucketed into a uniform grid, so a click
+ * can be resolved to the polynomial that produced the nearest dot.
+ *
+ * Coordinates are relative to an origin set when the index is cleared (the view
+ * center), like deep-zoom batch records: cells are about a click radius wide, so at
+ * deep zoom absolute coordinates would overflow the cell range and lose the precision
+ * that tells neighbouring dots apart.
+ *
+ * Overwritten ring slots are not removed from their old grid cell; each slot
+ * remembers its current cell and stale entries are skipped during queries. The
+ * grid is rebuilt from the live slots once stale entries outnumber live ones.
+ */
+
+export interface RootSpatialIndex {
+  capacity: number;
+  // Grid cell side in complex-plane units
+  cellSize: number;
+  // Point the stored coordinates are relative to
+  originRe: number;
+  originIm: number;
+  re: Float64Array;
+  im: Float64Array;
+  rootNumbers: Uint16Array;
+  polynomialIndices: bigint[];
+  // Grid cell key of every slot (used to detect stale cell entries)
+  slotCells: Float64Array;
+  cells: Map<number, number[]>;
+  // Slots written so far (the next slot is count % capacity)
+  count: number;
+  // Total entries across all cell lists, live or stale
+  cellEntries: number;
+}
+
+export interface RootHit {
+  polynomialIndex: bigint;
+  rootNumber: number;
+  re: number;
+  im: number;
+  distance: number;
+}
+
+export const ROOT_INDEX_CAPACITY = 1 << 18;
+
+// Cells are addressed by integer coordinates in [-CELL_RANGE, CELL_RANGE)
+const CELL_RANGE = 1 << 20;
+// Never scan more than this many cells in each direction around a query
+const MAX_QUERY_CELLS = 8;
+
+export const createRootSpatialIndex = (
+  capacity: number = ROOT_INDEX_CAPACITY,
+  cellSize: number = 0.01
+): RootSpatialIndex => ({
+  capacity,
+  cellSize,
+  originRe: 0,
+  originIm: 0,
+  re: new Float64Array(capacity),
+  im: new Float64Array(capacity),
+  rootNumbers: new Uint16Array(capacity),
+  polynomialIndices: new Array(capacity),
+  slotCells: new Float64Array(capacity),
+  cells: new Map(),
+  count: 0,
+  cellEntries: 0,
+});
+
+/**
+ * Forget all roots. The cell size should be about the click radius at the current zoom,
+ * and the origin near the roots that will be stored (the view center).
+ */
+export const clearRootSpatialIndex = (
+  index: RootSpatialIndex,
+  cellSize: number,
+  originRe: number = 0,
+  originIm: number = 0
+): void => {
+  index.cellSize = cellSize > 0 && isFinite(cellSize) ? cellSize : index.cellSize;
+  index.originRe = originRe;
+  index.originIm = originIm;
+  index.cells.clear();
+  index.count = 0;
+  index.cellEntries = 0;
+};
+
+const toCell = (value: number, cellSize: number): number =>
+  Math.max(-CELL_RANGE, Math.min(CELL_RANGE - 1, Math.floor(value / cellSize)));
+
+const cellKey = (cx: number, cy: number): number =>
+  (cx + CELL_RANGE) * 2 * CELL_RANGE + (cy + CELL_RANGE);
+
+const addToCell = (index: RootSpatialIndex, key: number, slot: number): void => {
+  const list = index.cells.get(key);
+  if (list) {
+    list.push(slot);
+  } else {
+    index.cells.set(key, [slot]);
+  }
+  index.cellEntries++;
+};
+
+// Drop stale cell entries by re-bucketing the live slots
+const rebuildCells = (index: RootSpatialIndex): void => {
+  index.cells.clear();
+  index.cellEntries = 0;
+  const live = Math.min(index.count, index.capacity);
+  for (let slot = 0; slot < live; slot++) {
+    addToCell(index, index.slotCells[slot], slot);
+  }
+};
+
+/**
+ * Make the stored roots relative to a new origin (when the view moved without clearing).
+ */
+export const moveRootSpatialIndexOrigin = (index: RootSpatialIndex, originRe: number, originIm: number): void => {
+  if (originRe === index.originRe && originIm === index.originIm) return;
+  const shiftRe = index.originRe - originRe;
+  const shiftIm = index.originIm - originIm;
+  index.originRe = originRe;
+  index.originIm = originIm;
+  const live = Math.min(index.count, index.capacity);
+  for (let slot = 0; slot < live; slot++) {
+    index.re[slot] += shiftRe;
+    index.im[slot] += shiftIm;
+    index.slotCells[slot] = cellKey(toCell(index.re[slot], index.cellSize), toCell(index.im[slot], index.cellSize));
+  }
+  rebuildCells(index);
+};
+
+/**
+ * Store a root given relative to the index origin.
+ */
+export const insertRoot = (
+  index: RootSpatialIndex,
+  re: number,
+  im: number,
+  polynomialIndex: bigint,
+  rootNumber: number
+): void => {
+  const slot = index.count % index.capacity;
+  const key = cellKey(toCell(re, index.cellSize), toCell(im, index.cellSize));
+
+  index.re[slot] = re;
+  index.im[slot] = im;
+  index.rootNumbers[slot] = rootNumber;
+  index.polynomialIndices[slot] = polynomialIndex;
+  index.slotCells[slot] = key;
+  index.count++;
+  addToCell(index, key, slot);
+
+  if (index.cellEntries > index.capacity * 2) {
+    rebuildCells(index);
+  }
+};
+
+/**
+ * Nearest stored root within radius (complex-plane units) of (re, im), relative to the
+ * index origin, or null. The hit carries absolute coordinates.
+ */
+export const findNearestRoot = (
+  index: RootSpatialIndex,
+  re: number,
+  im: number,
+  radius: number
+): RootHit | null => {
+  const reach = Math.min(MAX_QUERY_CELLS, Math.ceil(radius / index.cellSize));
+  const cx = toCell(re, index.cellSize);
+  const cy = toCell(im, index.cellSize);
+  let best: RootHit | null = null;
+
+  for (let dx = -reach; dx <= reach; dx++) {
+    for (let dy = -reach; dy <= reach; dy++) {
+      const key = cellKey(cx + dx, cy + dy);
+      const list = index.cells.get(key);
+      if (!list) continue;
+      for (const slot of list) {
+        if (index.slotCells[slot] !== key) continue; // Slot was overwritten elsewhere
+        const distance = Math.hypot(index.re[slot] - re, index.im[slot] - im);
+        if (distance <= radius && (!best || distance < best.distance)) {
+          best = {
+            polynomialIndex: index.polynomialIndices[slot],
+            rootNumber: index.rootNumbers[slot],
+            re: index.re[slot] + index.originRe,
+            im: index.im[slot] + index.originIm,
+            distance,
+          };
+        }
+      }
+    }
+  }
+  return best;
+};
@@ -0,0 +1,97 @@
+/**
+ * Store of computed root batches
+ *
+ * Roots do not depend on the view, so after a pan or zoom the batches already solved
+ * can be redrawn at once and only the missing ones sent to the workers. The store
+ * keeps the packed batch results (see rootBatch) of one parameter set, by batch
+ * index. Storing under a different key empties it first. Batches that would exceed
+ * the memory budget are not kept; they are solved again whenever they are needed.
+ * Batches still being solved are tracked too, so a render that starts meanwhile (a pan
+ * during a render) waits for them instead of solving them a second time.
+ */
+
+import { RootBatchResult } from './rootBatch';
+
+export interface RootStore {
+  // Identifies the parameter set whose batches are stored
+  key: string;
+  batches: (RootBatchResult | undefined)[];
+  // Batches being solved or loaded; null results mean cancelled or failed
+  pending: Map<number, Promise<RootBatchResult | null>>;
+  batchCount: number;
+  storedBatches: number;
+  storedRoots: number;
+  bytes: number;
+  budgetBytes: number;
+}
+
+// Record data of about 16M roots at degree 16
+export const DEFAULT_ROOT_STORE_BUDGET = 256 * 1024 * 1024;
+
+export const createRootStore = (budgetBytes: number = DEFAULT_ROOT_STORE_BUDGET): RootStore => ({
+  key: '',
+  batches: [],
+  pending: new Map(),
+  batchCount: 0,
+  storedBatches: 0,
+  storedRoots: 0,
+  bytes: 0,
+  budgetBytes,
+});
+
+/**
+ * Point the store at a parameter set of batchCount batches. Returns true if its
+ * batches were already there, false if the store was emptied. Refinement passes only
+ * add batches, so a larger count for the same key extends the store.
+ */
+export const prepareRootStore = (store: RootStore, key: string, batchCount: number): boolean => {
+  if (store.key === key) {
+    store.batchCount = Math.max(store.batchCount, batchCount);
+    return true;
+  }
+  store.key = key;
+  store.batches = new Array(batchCount);
+  store.pending = new Map();
+  store.batchCount = batchCount;
+  store.storedBatches = 0;
+  store.storedRoots = 0;
+  store.bytes = 0;
+  return false;
+};
+
+/**
+ * Keep a batch of the store's parameter set. Returns false if it did not fit the budget.
+ */
+export const storeRootBatch = (store: RootStore, batchIndex: number, batch: RootBatchResult): boolean => {
+  if (batchIndex < 0 || batchIndex >= store.batchCount) return false;
+  if (store.batches[batchIndex]) return true;
+  if (store.bytes + batch.data.byteLength > store.budgetBytes) return false;
+
+  store.batches[batchIndex] = batch;
+  store.storedBatches++;
+  store.storedRoots += batch.polynomialCount * batch.rootsPerPolynomial;
+  store.bytes += batch.data.byteLength;
+  return true;
+};
+
+/**
+ * Track a batch that is being solved for the store's parameter set until it settles.
+ */
+export const trackPendingBatch = (
+  store: RootStore,
+  batchIndex: number,
+  promise: Promise<RootBatchResult | null>
+): Promise<RootBatchResult | null> => {
+  const { pending } = store;
+  pending.set(batchIndex, promise);
+  promise.finally(() => {
+    if (pending.get(batchIndex) === promise) pending.delete(batchIndex);
+  });
+  return promise;
+};
+
+export const getStoredBatch = (store: RootStore, batchIndex: number): RootBatchResult | undefined =>
+  store.batches[batchIndex];
+
+export const isRootStoreComplete = (store: RootStore): boolean =>
+  store.batchCount > 0 && store.storedBatches === store.batchCount;
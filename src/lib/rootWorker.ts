@@ -0,0 +1,21 @@
+/**
+ * Web Worker entry point for root finding.
+ * Receives a RootBatchRequest, replies with a RootBatchResult whose buffer is transferred,
+ * or with a RootBatchError if the batch throws.
+ */
+
+import { computeRootBatch, RootBatchError, RootBatchRequest } from './rootBatch';
+
+self.onmessage = (e: MessageEvent<RootBatchRequest>) => {
+  try {
+    const result = computeRootBatch(e.data);
+    self.postMessage(result, { transfer: [result.data.buffer] });
+  } catch (error) {
+    const reply: RootBatchError = {
+      renderId: e.data.renderId,
+      batchIndex: e.data.batchIndex,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    self.postMessage(reply);
+  }
+};
@@ -0,0 +1,169 @@
+/**
+ * Worker pool for off-main-thread root finding
+ *
+ * Batches are queued and handed to the first idle worker. Cancellation is tied to
+ * the render id: queued batches of a cancelled render are dropped, and results of
+ * batches already running are resolved as null so callers can ignore them, unless
+ * the batch was submitted with keepIfCancelled (the caller then checks the render id).
+ * Falls back to computing on the main thread when workers are unavailable.
+ * A batch that throws is logged and resolved as null, so callers never wait forever.
+ */
+
+import { computeRootBatch, RootBatchError, RootBatchRequest, RootBatchResult } from './rootBatch';
+
+export interface RootWorkerPool {
+  size: number;
+  submit: (request: RootBatchRequest, options?: { keepIfCancelled?: boolean }) => Promise<RootBatchResult | null>;
+  cancel: (renderId: number) => void;
+  terminate: () => void;
+}
+
+interface QueuedJob {
+  request: RootBatchRequest;
+  resolve: (result: RootBatchResult | null) => void;
+  // Resolve with the result even if the render is cancelled while the batch runs
+  keepIfCancelled: boolean;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: QueuedJob | null;
+}
+
+const MAX_POOL_SIZE = 16;
+
+export const getDefaultPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores || 4));
+};
+
+// Main-thread computation (fallback and worker crash recovery); null if the batch throws
+const computeOnMainThread = (request: RootBatchRequest): RootBatchResult | null => {
+  try {
+    return computeRootBatch(request);
+  } catch (error) {
+    console.error(`[Worker Pool] Batch ${request.batchIndex} failed:`, error);
+    return null;
+  }
+};
+
+const createWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./rootWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+};
+
+export const createRootWorkerPool = (size: number = getDefaultPoolSize()): RootWorkerPool => {
+  const queue: QueuedJob[] = [];
+  // Queued, running and main-thread jobs; cancelled ids are kept only while some remain
+  const activeJobs = new Set<QueuedJob>();
+  const cancelledRenderIds = new Set<number>();
+  const workers: PoolWorker[] = [];
+
+  for (let i = 0; i < size; i++) {
+    const worker = createWorker();
+    if (!worker) break;
+    workers.push({ worker, job: null });
+  }
+
+  const forgetCancelledId = (renderId: number) => {
+    for (const job of activeJobs) {
+      if (job.request.renderId === renderId) return;
+    }
+    cancelledRenderIds.delete(renderId);
+  };
+
+  const finishJob = (job: QueuedJob, result: RootBatchResult | null) => {
+    const { renderId } = job.request;
+    activeJobs.delete(job);
+    if (cancelledRenderIds.has(renderId)) {
+      job.resolve(job.keepIfCancelled ? result : null);
+      forgetCancelledId(renderId);
+    } else {
+      job.resolve(result);
+    }
+  };
+
+  const dispatch = () => {
+    for (const poolWorker of workers) {
+      if (poolWorker.job || queue.length === 0) continue;
+      const job = queue.shift()!;
+      poolWorker.job = job;
+      poolWorker.worker.postMessage(job.request);
+    }
+  };
+
+  workers.forEach((poolWorker) => {
+    poolWorker.worker.onmessage = (e: MessageEvent<RootBatchResult | RootBatchError>) => {
+      const job = poolWorker.job;
+      poolWorker.job = null;
+      if ('error' in e.data) {
+        console.error(`[Worker Pool] Batch ${e.data.batchIndex} failed:`, e.data.error);
+        if (job) finishJob(job, null);
+      } else if (job) {
+        finishJob(job, e.data);
+      }
+      dispatch();
+    };
+    poolWorker.worker.onerror = (e) => {
+      console.error('[Worker Pool] Worker error:', e.message);
+      const job = poolWorker.job;
+      poolWorker.job = null;
+      // Recompute on the main thread so the render still completes
+      if (job) finishJob(job, computeOnMainThread(job.request));
+      dispatch();
+    };
+  });
+
+  if (workers.length === 0) {
+    console.log('[Worker Pool] Web Workers unavailable, computing on main thread');
+  }
+
+  const submit = (request: RootBatchRequest, { keepIfCancelled = false } = {}): Promise<RootBatchResult | null> =>
+    new Promise((resolve) => {
+      const job: QueuedJob = { request, resolve, keepIfCancelled };
+      activeJobs.add(job);
+      if (workers.length === 0) {
+        // Main-thread fallback: yield first so the caller's frame can finish
+        setTimeout(() => {
+          finishJob(job, cancelledRenderIds.has(request.renderId) ? null : computeOnMainThread(request));
+        }, 0);
+        return;
+      }
+      queue.push(job);
+      dispatch();
+    });
+
+  const cancel = (renderId: number) => {
+    cancelledRenderIds.add(renderId);
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (queue[i].request.renderId === renderId) {
+        const [job] = queue.splice(i, 1);
+        finishJob(job, null);
+      }
+    }
+    forgetCancelledId(renderId);
+  };
+
+  const terminate = () => {
+    queue.forEach((job) => job.resolve(null));
+    queue.length = 0;
+    activeJobs.clear();
+    cancelledRenderIds.clear();
+    workers.forEach((poolWorker) => {
+      poolWorker.job?.resolve(null);
+      poolWorker.worker.terminate();
+    });
+    workers.length = 0;
+  };
+
+  return {
+    size: Math.max(1, workers.length),
+    submit,
+    cancel,
+    terminate,
+  };
+};
@@ -5,24 +5,32 @@
  * enabling exploration of different "slices" of the Littlewood polynomial space.
  */
 
+import { PositionSets, bigIntCeilDiv, getPositionRadices, scaleBigInt } from './math';
+
 export type SamplingMode =
   | 'uniform'    // Current behavior: index * skipInterval + offset
   | 'first'      // First N polynomials (no skipping) + offset
   | 'random'     // Pseudo-random step increments
   | 'by_a0'      // Filter by free coefficient (a₀)
-  | 'by_an';     // Filter by leading coefficient (aₙ)
+  | 'by_an'      // Filter by leading coefficient (aₙ)
+  | 'by_position' // Filter by the coefficient at any power (filterPosition)
+  | 'gray'       // Reflected Gray-code order: one coefficient changes per step
+  | 'progressive'; // Radical-inverse order: every prefix is an evenly stratified sample
 
 export interface SamplingConfig {
   mode: SamplingMode;
-  // For by_a0 and by_an modes: which coefficient index to filter by (0 to coeffsLength-1)
+  // For filter modes: which palette coefficient to filter by (0 to coeffsLength-1)
   filterCoeffIndex: number;
-  // Normalized offset (0 to 1) for uniform and first modes
+  // For by_position mode: which power to filter (0 = a₀)
+  filterPosition: number;
+  // Normalized offset (0 to 1) for uniform, first and gray modes
   offset: number;
 }
 
 export const DEFAULT_SAMPLING_CONFIG: SamplingConfig = {
   mode: 'uniform',
   filterCoeffIndex: 0,
+  filterPosition: 0,
   offset: 0,
 };
 
@@ -192,85 +200,299 @@ export const getRandomStepMultiplier = (iteration: number): number => {
   return RANDOM_STEPS[iteration % RANDOM_STEPS_COUNT] / RANDOM_STEPS_AVG;
 };
 
+/**
+ * Map a position in reflected mixed-radix Gray-code order to a polynomial index.
+ *
+ * Digits are processed from the most significant (aₙ) down. Within each value of a
+ * digit the lower digits are enumerated forward when that value is even and backward
+ * when it is odd, so consecutive positions differ in exactly one digit by ±1.
+ *
+ * @param position - Position in Gray-code order (0 to product of radices - 1)
+ * @param radices - Number of choices per coefficient, index 0 = a₀
+ */
+export const getMixedRadixGrayIndex = (position: bigint, radices: number[]): bigint => {
+  // Weight of each digit in the ordinary (base-coeffsLength) polynomial index
+  const weights: bigint[] = [];
+  let weight = 1n;
+  for (let i = 0; i < radices.length; i++) {
+    weights.push(weight);
+    weight *= BigInt(radices[i]);
+  }
+
+  let index = 0n;
+  let rest = position;
+  for (let i = radices.length - 1; i >= 0; i--) {
+    const lowerCount = weights[i];
+    const digit = rest / lowerCount;
+    rest = rest % lowerCount;
+    index += digit * weights[i];
+    // Odd digit value: the block of lower digits is walked in reverse
+    if (digit % 2n === 1n) {
+      rest = lowerCount - 1n - rest;
+    }
+  }
+  return index;
+};
+
+/**
+ * Map a position in radical-inverse (van der Corput) order to a polynomial index.
+ *
+ * The digits of the position, least significant first, become the digits of the index
+ * from aₙ down (for equal radices b this is the base-b radical inverse scaled to the
+ * index range). Consecutive positions change the most significant digits fastest, so
+ * the first rₙ·rₙ₋₁·…·rₖ positions cover every combination of aₙ … aₖ exactly once:
+ * a render stopped at any point has drawn an evenly stratified sample of the space.
+ *
+ * @param position - Position in radical-inverse order (0 to product of radices - 1)
+ * @param radices - Number of choices per coefficient, index 0 = a₀
+ */
+export const getRadicalInverseIndex = (position: bigint, radices: number[]): bigint => {
+  const weights: bigint[] = [];
+  let weight = 1n;
+  for (let i = 0; i < radices.length; i++) {
+    weights.push(weight);
+    weight *= BigInt(radices[i]);
+  }
+
+  let index = 0n;
+  let rest = position;
+  for (let i = radices.length - 1; i >= 0; i--) {
+    const radix = BigInt(radices[i]);
+    index += (rest % radix) * weights[i];
+    rest /= radix;
+  }
+  return index;
+};
+
+/**
+ * Position of the k-th polynomial whose digit at `position` equals `digit`.
+ * The digits below the filtered one count up fastest, so for a₀ the matches are
+ * digit, digit + r₀, digit + 2r₀, ... and for aₙ they form one contiguous block.
+ */
+const getFilteredIndex = (k: bigint, position: number, digit: number, radices: number[]): bigint => {
+  let lowerWeight = 1n;
+  for (let i = 0; i < position; i++) {
+    lowerWeight *= BigInt(radices[i]);
+  }
+  const low = k % lowerWeight;
+  const high = k / lowerWeight;
+  return low + BigInt(digit) * lowerWeight + high * lowerWeight * BigInt(radices[position]);
+};
+
+/**
+ * Power and palette entry a filter mode selects, or null for non-filter modes.
+ */
+const getFilterTarget = (
+  config: SamplingConfig,
+  degree: number
+): { position: number; paletteIndex: number } | null => {
+  switch (config.mode) {
+    case 'by_a0':
+      return { position: 0, paletteIndex: config.filterCoeffIndex };
+    case 'by_an':
+      return { position: degree, paletteIndex: config.filterCoeffIndex };
+    case 'by_position':
+      return { position: Math.min(degree, config.filterPosition), paletteIndex: config.filterCoeffIndex };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Refinement passes
+ *
+ * A render samples polynomialsToRender = ⌈total / skipInterval⌉ local indices. Refining
+ * adds further passes of new polynomials without touching those already drawn: local
+ * indices past the first lattice belong to pass ⌊local / lattice⌋. Strided modes place
+ * pass p at a shift within the skip interval, in bit-reversed order (½, then ¼ and ¾,
+ * ...), so every few passes halve the gaps evenly. Sequence modes (first, gray,
+ * progressive and the filters, which draw their subset in progressive order) continue
+ * the sequence where the previous pass ended instead.
+ */
+export const MAX_REFINEMENT_PASSES = 64;
+
+// Shifts of the passes for the last skip interval used; next is the bit-reversal counter
+let refinementShifts: { skipInterval: bigint; shifts: bigint[]; next: bigint } = { skipInterval: 0n, shifts: [], next: 1n };
+
+const reverseBits = (value: bigint, bits: number): bigint => {
+  let result = 0n;
+  for (let i = 0; i < bits; i++) {
+    result = (result << 1n) | ((value >> BigInt(i)) & 1n);
+  }
+  return result;
+};
+
+/**
+ * Shift within the skip interval of a refinement pass (0 for the first pass).
+ * Only valid for pass < skipInterval.
+ */
+const getRefinementShift = (pass: number, skipInterval: bigint): bigint => {
+  if (refinementShifts.skipInterval !== skipInterval) {
+    refinementShifts = { skipInterval, shifts: [0n], next: 1n };
+  }
+  const bits = (skipInterval - 1n).toString(2).length;
+  const { shifts } = refinementShifts;
+  // Bit-reversed counter values past the interval are skipped; at least half of them fit
+  while (shifts.length <= pass) {
+    const shift = reverseBits(refinementShifts.next++, bits);
+    if (shift < skipInterval) shifts.push(shift);
+  }
+  return shifts[pass];
+};
+
+const isSequenceMode = (config: SamplingConfig): boolean =>
+  config.mode === 'first' || config.mode === 'gray' || config.mode === 'progressive' || getFilterTarget(config, 0) !== null;
+
+/**
+ * How many refinement passes can follow the first one (0 when every polynomial is drawn).
+ * Random sampling has none: its jitter scales the lattice positions freely, so the
+ * shifted lattices of later passes land on polynomials that are already drawn.
+ */
+export const getRefinementPassLimit = (
+  config: SamplingConfig,
+  skipInterval: bigint,
+  totalPolynomials: bigint,
+  maxRoots: number
+): number => {
+  if (!isFinite(maxRoots) || totalPolynomials === 0n || config.mode === 'random') return 0;
+  const lattice = bigIntCeilDiv(totalPolynomials, skipInterval);
+  const passes = isSequenceMode(config) ? bigIntCeilDiv(totalPolynomials, lattice) - 1n : skipInterval - 1n;
+  return Number(passes < BigInt(MAX_REFINEMENT_PASSES) ? passes : BigInt(MAX_REFINEMENT_PASSES));
+};
+
+/**
+ * Position of a local index on the strided lattice (before any sampling offset),
+ * including the shift of its refinement pass, or -1 past the last pass.
+ */
+const getStridedPosition = (local: bigint, skipInterval: bigint, totalPolynomials: bigint): bigint => {
+  if (skipInterval <= 1n) return local * skipInterval;
+  const lattice = bigIntCeilDiv(totalPolynomials, skipInterval);
+  const pass = local / lattice;
+  if (pass >= skipInterval) return -1n;
+  return (local % lattice) * skipInterval + getRefinementShift(Number(pass), skipInterval);
+};
+
+/**
+ * Uniform skip interval that keeps the theoretical root count within maxRoots.
+ */
+export const getSkipInterval = (totalPolynomials: bigint, degree: number, maxRoots: number): bigint => {
+  if (!isFinite(maxRoots)) return 1n;
+  const theoreticalTotalRoots = totalPolynomials * BigInt(degree);
+  const limit = BigInt(Math.max(1, Math.floor(maxRoots)));
+  return theoreticalTotalRoots > limit ? bigIntCeilDiv(theoreticalTotalRoots, limit) : 1n;
+};
+
 /**
  * Calculate polynomial index based on sampling mode.
  *
- * @param localIndex - The iteration counter (0, 1, 2, ...)
+ * Index arithmetic is done in bigint since polynomial spaces routinely exceed 2^53.
+ *
+ * @param localIndex - The iteration counter (0, 1, 2, ...); indices past the first
+ *   polynomialsToRender belong to refinement passes
  * @param baseSkipInterval - The uniform skip interval
  * @param config - Sampling configuration
  * @param totalPolynomials - Total number of polynomials
- * @param coeffsLength - Number of coefficient choices
- * @param degree - Polynomial degree
+ * @param positionSets - Palette indices available at each power
  * @param maxRoots - Max roots to draw (used to calculate offset range)
+ * @param rootsPerPolynomial - Points drawn per polynomial (roots of the solved family,
+ *   matrix eigenvalues, or 1 for the dragon set), which sizes the window of 'first' and 'gray';
+ *   a family without roots counts as 1 so the window stays finite
  * @returns The actual polynomial index to render, or -1 to skip
  */
 export const getPolynomialIndex = (
   localIndex: number,
-  baseSkipInterval: number,
+  baseSkipInterval: bigint,
   config: SamplingConfig,
-  totalPolynomials: number,
-  coeffsLength: number,
-  degree: number,
-  maxRoots: number
-): number => {
+  totalPolynomials: bigint,
+  positionSets: PositionSets,
+  maxRoots: number,
+  rootsPerPolynomial: number
+): bigint => {
+  const local = BigInt(localIndex);
+
   // When maxRoots is unlimited, ignore sampling settings and use simple uniform
   if (!isFinite(maxRoots)) {
-    return localIndex;
+    return local;
   }
 
   switch (config.mode) {
     case 'uniform': {
       // Offset shifts the starting point within the skip interval
-      const startOffset = Math.floor(config.offset * Math.max(0, baseSkipInterval - 1));
-      return startOffset + localIndex * baseSkipInterval;
+      const position = getStridedPosition(local, baseSkipInterval, totalPolynomials);
+      if (position < 0n) return -1n;
+      const startOffset = scaleBigInt(baseSkipInterval > 1n ? baseSkipInterval - 1n : 0n, config.offset);
+      return startOffset + position;
     }
 
     case 'first': {
       // Offset shifts which "first N" polynomials to show
       const theoreticalMax = totalPolynomials;
-      const polynomialsToRender = Math.ceil(maxRoots / degree);
-      const maxOffset = Math.max(0, theoreticalMax - polynomialsToRender);
-      const startOffset = Math.floor(config.offset * maxOffset);
-      return startOffset + localIndex;
+      const polynomialsToRender = BigInt(Math.ceil(maxRoots / Math.max(1, rootsPerPolynomial)));
+      const maxOffset = theoreticalMax > polynomialsToRender ? theoreticalMax - polynomialsToRender : 0n;
+      const startOffset = scaleBigInt(maxOffset, config.offset);
+      return startOffset + local;
     }
 
     case 'random': {
       // Use base uniform position + pseudo-random offset
       // This maintains O(1) complexity while adding variation
       // The offset is deterministic (based on iteration) so results are reproducible
-      const baseIndex = localIndex * baseSkipInterval;
+      const baseIndex = getStridedPosition(local, baseSkipInterval, totalPolynomials);
+      if (baseIndex < 0n) return -1n;
       const multiplier = getRandomStepMultiplier(localIndex);
       // Normalize multiplier to range around 1, then apply wider spread
       // The large prime range (10² - 10⁶) creates significant variation
       const normalizedMultiplier = (multiplier - 1) * 0.8 + 1; // ±80% variation
-      return Math.max(0, Math.floor(baseIndex * normalizedMultiplier));
+      return scaleBigInt(baseIndex, normalizedMultiplier);
     }
 
-    case 'by_a0': {
-      // Filter polynomials where index % coeffsLength == filterCoeffIndex
-      // This selects polynomials with a specific free coefficient (a₀)
-      const targetA0 = config.filterCoeffIndex % coeffsLength;
-      // Direct calculation: polynomials with a₀ = targetA0 have indices:
-      // targetA0, targetA0 + coeffsLength, targetA0 + 2*coeffsLength, ...
-      const filteredIndex = targetA0 + (localIndex * baseSkipInterval) * coeffsLength;
-      return filteredIndex < totalPolynomials ? filteredIndex : -1;
+    case 'by_a0':
+    case 'by_an':
+    case 'by_position': {
+      // Keep only polynomials whose coefficient at the filtered power is the chosen
+      // palette entry; the k-th match is computed directly from its mixed-radix digits
+      const target = getFilterTarget(config, positionSets.length - 1)!;
+      const digit = positionSets[target.position].indexOf(target.paletteIndex);
+      if (digit < 0) return -1n; // Entry not available at this power: nothing matches
+      const radices = getPositionRadices(positionSets);
+      const subsetRadices = radices.filter((_, i) => i !== target.position);
+      const subsetSize = totalPolynomials / BigInt(radices[target.position]);
+
+      // The subset is walked in progressive order, so partial renders are stratified
+      // within it too. Each pass takes the next ⌈subsetSize / skip⌉ sequence positions.
+      const lattice = bigIntCeilDiv(totalPolynomials, baseSkipInterval);
+      const perPass = bigIntCeilDiv(subsetSize, baseSkipInterval);
+      const inPass = local % lattice;
+      if (inPass >= perPass) return -1n;
+      const sequencePosition = (local / lattice) * perPass + inPass;
+      if (sequencePosition >= subsetSize) return -1n;
+
+      const filteredIndex = getFilteredIndex(
+        getRadicalInverseIndex(sequencePosition, subsetRadices),
+        target.position,
+        digit,
+        radices
+      );
+      return filteredIndex < totalPolynomials ? filteredIndex : -1n;
     }
 
-    case 'by_an': {
-      // Filter polynomials where floor(index / coeffsLength^degree) % coeffsLength == filterCoeffIndex
-      // This selects polynomials with a specific leading coefficient (aₙ)
-      const targetAn = config.filterCoeffIndex % coeffsLength;
-      const highOrderBase = Math.pow(coeffsLength, degree);
-      // Polynomials with aₙ = targetAn start at targetAn * highOrderBase
-      // and span highOrderBase consecutive indices
-      const blockStart = targetAn * highOrderBase;
-      const indexInBlock = localIndex * baseSkipInterval;
-      if (indexInBlock >= highOrderBase) return -1;
-      return blockStart + indexInBlock;
+    case 'progressive': {
+      // Radical-inverse order from the start; refinement passes continue the sequence
+      if (local >= totalPolynomials) return -1n;
+      return getRadicalInverseIndex(local, getPositionRadices(positionSets));
+    }
+
+    case 'gray': {
+      // Same window as 'first', but positions are walked in Gray-code order
+      const polynomialsToRender = BigInt(Math.ceil(maxRoots / Math.max(1, rootsPerPolynomial)));
+      const maxOffset = totalPolynomials > polynomialsToRender ? totalPolynomials - polynomialsToRender : 0n;
+      const position = scaleBigInt(maxOffset, config.offset) + local;
+      if (position >= totalPolynomials) return -1n;
+      return getMixedRadixGrayIndex(position, getPositionRadices(positionSets));
     }
 
     default:
-      return localIndex * baseSkipInterval;
+      return local * baseSkipInterval;
   }
 };
 
@@ -279,32 +501,21 @@ export const getPolynomialIndex = (
  * Used for progress calculation and color distribution.
  */
 export const getEffectivePolynomialCount = (
-  totalPolynomials: number,
+  totalPolynomials: bigint,
   maxRoots: number,
-  degree: number,
   config: SamplingConfig,
-  coeffsLength: number
-): number => {
-  const baseCount = Math.min(
-    totalPolynomials,
-    maxRoots === Infinity ? totalPolynomials : Math.ceil(maxRoots / degree)
-  );
-
-  switch (config.mode) {
-    case 'uniform':
-    case 'random':
-    case 'first':
-      return baseCount;
+  positionSets: PositionSets,
+  rootsPerPolynomial: number
+): bigint => {
+  const maxPolynomials = maxRoots === Infinity ? totalPolynomials : BigInt(Math.ceil(maxRoots / Math.max(1, rootsPerPolynomial)));
+  const baseCount = totalPolynomials < maxPolynomials ? totalPolynomials : maxPolynomials;
 
-    case 'by_a0':
-      // Only 1/coeffsLength of polynomials match
-      return Math.ceil(baseCount / coeffsLength);
-
-    case 'by_an':
-      // Only 1/coeffsLength of polynomials match (in a contiguous block)
-      return Math.min(baseCount, Math.pow(coeffsLength, degree));
+  const target = getFilterTarget(config, positionSets.length - 1);
+  if (!target) return baseCount;
+  if (!positionSets[target.position].includes(target.paletteIndex)) return 0n;
 
-    default:
-      return baseCount;
-  }
+  // Only 1/radix of polynomials match the filtered power
+  const matching = totalPolynomials / BigInt(positionSets[target.position].length);
+  const filtered = bigIntCeilDiv(baseCount, BigInt(positionSets[target.position].length));
+  return filtered < matching ? filtered : matching;
 };
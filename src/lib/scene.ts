@@ -0,0 +1,335 @@
+/**
+ * Scenes: the full render state, versioned
+ *
+ * A scene holds everything needed to reproduce a render (degree, coefficients,
+ * sampling, grid, color, view, ...) at full floating-point precision. The same
+ * schema is used for the URL, for scene JSON files and for the metadata embedded
+ * in exported PNGs.
+ *
+ * Every stored scene carries a version. Older versions are upgraded one step at
+ * a time by MIGRATIONS before validation; missing fields take the schema
+ * defaults. Version 0 is the original query string with one loose key per
+ * setting (d, c1x, gst, ...), so old links keep working.
+ *
+ * In the URL a scene is stored compactly as a single `s` parameter: only the
+ * fields that differ from the defaults, as JSON, deflated and base64url-encoded.
+ * Changing a default therefore changes the meaning of existing links and needs a
+ * new version whose migration fills in the old default.
+ */
+
+import { z } from 'zod';
+import { Complex, DEFAULT_FAMILY_TRANSFORM, DEFAULT_MATRIX_STRUCTURE, DEFAULT_ROOT_SOLVER, FAMILY_TRANSFORMS, FamilyTransform, MATRIX_STRUCTURES, MatrixStructure, ROOT_SOLVERS, RootSolver, getMinimumTransformDegree } from './math';
+import { PositionSetOverrides, parsePositionSet } from './coefficientSets';
+import { DEFAULT_GRID_CONFIG, GridConfig } from './grid';
+import { DEFAULT_SAMPLING_CONFIG, SamplingConfig, SamplingMode } from './sampling';
+import { DEFAULT_TONE_MAPPING, TONE_MAPPINGS, ToneMapping } from './density';
+import { DEFAULT_IM_FORMULA, DEFAULT_RE_FORMULA } from './coefficientFormula';
+import { ColorMode, RenderMode } from './renderModes';
+
+export const SCENE_FORMAT = 'littlewood-scene';
+export const SCENE_VERSION = 1;
+// Keyword of the PNG text chunk holding the scene
+export const SCENE_PNG_KEYWORD = 'littlewood-scene';
+// URL parameter holding the compact scene
+export const SCENE_URL_PARAM = 's';
+
+const COLOR_MODES: [ColorMode, ...ColorMode[]] = ['by_index', 'by_leading_coeff'];
+const RENDER_MODES: [RenderMode, ...RenderMode[]] = ['roots', 'newton_basin', 'dragon', 'bohemian'];
+const SAMPLING_MODES: [SamplingMode, ...SamplingMode[]] = ['uniform', 'first', 'random', 'by_a0', 'by_an', 'by_position', 'gray', 'progressive'];
+
+const complexSchema = z.object({
+  re: z.number().finite(),
+  im: z.number().finite(),
+});
+
+const sceneSchema = z.object({
+  degree: z.number().int().min(1).default(7),
+  coefficients: z.array(complexSchema).min(1).default([
+    { re: 1, im: 0 },
+    { re: -1, im: 0 },
+    { re: 0, im: 0 },
+  ]),
+  // Power → palette indices (JSON object keys are strings)
+  positionSetOverrides: z.record(z.string().regex(/^\d+$/), z.array(z.number().int().min(0)).min(1)).default({}),
+  // null = no limit (JSON has no Infinity)
+  maxRoots: z.number().positive().nullable().default(20000).transform((value) => value ?? Infinity),
+  colorBandWidth: z.number().min(0).max(1).default(1),
+  colorMode: z.enum(COLOR_MODES).default('by_index'),
+  renderMode: z.enum(RENDER_MODES).default('roots'),
+  matrixStructure: z.enum(MATRIX_STRUCTURES as [MatrixStructure, ...MatrixStructure[]]).default(DEFAULT_MATRIX_STRUCTURE),
+  dragonPoint: complexSchema.default({ re: 0.5, im: 0.5 }),
+  toneMapping: z.enum(TONE_MAPPINGS as [ToneMapping, ...ToneMapping[]]).default(DEFAULT_TONE_MAPPING.mode),
+  exposure: z.number().min(-8).max(8).default(DEFAULT_TONE_MAPPING.exposure),
+  gammaCorrection: z.number().min(-3).max(3).default(DEFAULT_TONE_MAPPING.gammaCorrection),
+  offsetX: z.number().finite().default(0),
+  offsetY: z.number().finite().default(0),
+  zoom: z.number().positive().finite().default(1),
+  polynomialNeighborRange: z.number().int().min(0).default(5),
+  gridConfig: z.object({
+    rectangular: z.object({
+      enabled: z.boolean().default(DEFAULT_GRID_CONFIG.rectangular.enabled),
+      step: z.number().positive().default(DEFAULT_GRID_CONFIG.rectangular.step),
+    }).default({}),
+    circles: z.object({
+      enabled: z.boolean().default(DEFAULT_GRID_CONFIG.circles.enabled),
+      step: z.number().positive().default(DEFAULT_GRID_CONFIG.circles.step),
+    }).default({}),
+    rays: z.object({
+      enabled: z.boolean().default(DEFAULT_GRID_CONFIG.rays.enabled),
+      count: z.number().int().positive().default(DEFAULT_GRID_CONFIG.rays.count),
+    }).default({}),
+    snapEnabled: z.boolean().default(DEFAULT_GRID_CONFIG.snapEnabled),
+    snapThresholdPx: z.number().positive().default(DEFAULT_GRID_CONFIG.snapThresholdPx),
+  }).default({}),
+  samplingConfig: z.object({
+    mode: z.enum(SAMPLING_MODES).default(DEFAULT_SAMPLING_CONFIG.mode),
+    filterCoeffIndex: z.number().int().min(0).default(DEFAULT_SAMPLING_CONFIG.filterCoeffIndex),
+    filterPosition: z.number().int().min(0).default(DEFAULT_SAMPLING_CONFIG.filterPosition),
+    offset: z.number().min(0).max(1).default(DEFAULT_SAMPLING_CONFIG.offset),
+  }).default({}),
+  rootSolver: z.enum(ROOT_SOLVERS as [RootSolver, ...RootSolver[]]).default(DEFAULT_ROOT_SOLVER),
+  familyTransform: z.enum(FAMILY_TRANSFORMS as [FamilyTransform, ...FamilyTransform[]]).default(DEFAULT_FAMILY_TRANSFORM),
+  reFormula: z.string().default(DEFAULT_RE_FORMULA),
+  imFormula: z.string().default(DEFAULT_IM_FORMULA),
+}).transform((scene) =>
+  // A transform that leaves no roots at this degree falls back to P(z)
+  scene.degree < getMinimumTransformDegree(scene.familyTransform) ? { ...scene, familyTransform: 'none' as const } : scene
+);
+
+export interface Scene {
+  degree: number;
+  coefficients: Complex[];
+  positionSetOverrides: PositionSetOverrides;
+  maxRoots: number; // Infinity = no limit
+  colorBandWidth: number;
+  colorMode: ColorMode;
+  renderMode: RenderMode;
+  matrixStructure: MatrixStructure;
+  dragonPoint: Complex;
+  toneMapping: ToneMapping;
+  exposure: number;
+  gammaCorrection: number;
+  offsetX: number;
+  offsetY: number;
+  zoom: number;
+  polynomialNeighborRange: number;
+  gridConfig: GridConfig;
+  samplingConfig: SamplingConfig;
+  rootSolver: RootSolver;
+  familyTransform: FamilyTransform;
+  reFormula: string;
+  imFormula: string;
+}
+
+// Without strictNullChecks zod infers every field as optional; the defaults make them all present
+export const DEFAULT_SCENE = sceneSchema.parse({}) as Scene;
+
+type SceneData = Record<string, unknown>;
+
+/**
+ * Version 0 → 1: the loose query-string keys. Values that do not parse are
+ * dropped (and fall back to the defaults), as the old link parser did.
+ */
+const migrateLegacyParams = (params: SceneData): SceneData => {
+  const get = (key: string): string | null => (typeof params[key] === 'string' ? (params[key] as string) : null);
+  const number = (key: string, isValid: (n: number) => boolean = () => true): number | undefined => {
+    const value = get(key);
+    const parsed = value === null ? NaN : parseFloat(value);
+    return !isNaN(parsed) && isValid(parsed) ? parsed : undefined;
+  };
+  const integer = (key: string, isValid: (n: number) => boolean): number | undefined => {
+    const value = get(key);
+    const parsed = value === null ? NaN : parseInt(value, 10);
+    return !isNaN(parsed) && isValid(parsed) ? parsed : undefined;
+  };
+  const flag = (key: string): boolean | undefined => (get(key) === null ? undefined : get(key) === '1');
+  const choice = <T extends string>(key: string, choices: readonly T[]): T | undefined =>
+    choices.includes(get(key) as T) ? (get(key) as T) : undefined;
+  const formula = (key: string): string | undefined => {
+    // Formulas were encoded once more on top of the query-string encoding
+    const value = get(key);
+    try {
+      return value ? decodeURIComponent(value) : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  // Coefficients: c = count, c{i}x / c{i}y (1-based); unreadable ones sit on the unit circle
+  let coefficients: Complex[] | undefined;
+  const coefficientCount = integer('c', (n) => n >= 1);
+  if (coefficientCount !== undefined) {
+    coefficients = Array.from({ length: coefficientCount }, (_, i) => {
+      const re = number(`c${i + 1}x`);
+      const im = number(`c${i + 1}y`);
+      if (re !== undefined && im !== undefined) return { re, im };
+      const angle = (2 * Math.PI * i) / coefficientCount;
+      return { re: Math.cos(angle), im: Math.sin(angle) };
+    });
+  }
+
+  // Per-position coefficient sets (p{power} = 1-based palette indices, e.g. p0=1&p7=1.2)
+  const positionSetOverrides: Record<string, number[]> = {};
+  Object.keys(params).forEach((key) => {
+    const match = /^p(\d+)$/.exec(key);
+    const indices = match && parsePositionSet(get(key) ?? '');
+    if (match && indices) positionSetOverrides[String(parseInt(match[1], 10))] = indices;
+  });
+
+  // Snap threshold: old values were in complex-plane units (e.g. 0.05)
+  const snapThreshold = number('gst', (n) => n > 0);
+
+  // Sampling: sf is a 1-based palette index; so is clamped to [0, 1]
+  const samplingMode = choice('sm', SAMPLING_MODES);
+  const samplingOffset = get('so') ? Math.max(0, Math.min(1, parseFloat(get('so')!))) : 0;
+  const samplingPosition = get('sp') ? parseInt(get('sp')!, 10) : 0;
+
+  // Older links also carry transparency (t) and blend mode (bm); tone mapping supersedes both
+  return {
+    version: 1,
+    degree: integer('d', (n) => n >= 1),
+    coefficients,
+    positionSetOverrides,
+    maxRoots: get('max') === 'inf' ? null : number('max', (n) => n > 0),
+    colorBandWidth: number('cbw', (n) => n >= 0 && n <= 1),
+    colorMode: choice('cm', COLOR_MODES),
+    renderMode: choice('rm', RENDER_MODES),
+    matrixStructure: choice('ms', MATRIX_STRUCTURES),
+    dragonPoint: number('dzx') !== undefined && number('dzy') !== undefined
+      ? { re: number('dzx'), im: number('dzy') }
+      : undefined,
+    toneMapping: choice('tm', TONE_MAPPINGS),
+    exposure: number('ex', (n) => n >= -8 && n <= 8),
+    gammaCorrection: number('gm', (n) => n >= -3 && n <= 3),
+    offsetX: number('0x'),
+    offsetY: number('0y'),
+    zoom: number('z', (n) => n > 0 && n <= 100),
+    polynomialNeighborRange: integer('hor', (n) => n >= 0),
+    gridConfig: {
+      rectangular: { enabled: flag('gr'), step: number('grs', (n) => n > 0) },
+      circles: { enabled: flag('gc'), step: number('gcs', (n) => n > 0) },
+      rays: { enabled: flag('gry'), count: integer('grc', (n) => n > 0) },
+      snapEnabled: flag('gs'),
+      snapThresholdPx: snapThreshold !== undefined && snapThreshold < 1 ? 20 : snapThreshold,
+    },
+    samplingConfig: samplingMode ? {
+      mode: samplingMode,
+      filterCoeffIndex: get('sf') ? Math.max(0, parseInt(get('sf')!, 10) - 1) || 0 : 0,
+      filterPosition: isNaN(samplingPosition) ? 0 : Math.max(0, samplingPosition),
+      offset: isNaN(samplingOffset) ? 0 : samplingOffset,
+    } : undefined,
+    rootSolver: choice('rs', ROOT_SOLVERS),
+    familyTransform: choice('ft', FAMILY_TRANSFORMS),
+    reFormula: formula('fre'),
+    imFormula: formula('fim'),
+  };
+};
+
+// Upgrade from version n to n + 1, keyed by n
+const MIGRATIONS: Record<number, (data: SceneData) => SceneData> = {
+  0: migrateLegacyParams,
+};
+
+/**
+ * Migrate and validate stored scene data of any known version.
+ * Throws an Error naming the first invalid field.
+ */
+export const parseSceneData = (value: unknown): Scene => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Invalid scene: not a JSON object');
+  }
+  let data = value as SceneData;
+  let version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error('Invalid scene: missing version');
+  }
+  if (version > SCENE_VERSION) {
+    throw new Error(`Scene version ${version} is newer than this app supports (${SCENE_VERSION})`);
+  }
+  while (version < SCENE_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+
+  const result = sceneSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid scene: ${issue.path.join('.') || issue.message}`);
+  }
+  return result.data as Scene;
+};
+
+// JSON form of a scene (Infinity is not representable)
+const toSceneData = (scene: Scene): SceneData => ({
+  ...scene,
+  maxRoots: scene.maxRoots === Infinity ? null : scene.maxRoots,
+});
+
+/**
+ * Scene file contents (also embedded in exported PNGs).
+ */
+export const serializeSceneJson = (scene: Scene): string =>
+  JSON.stringify({ format: SCENE_FORMAT, version: SCENE_VERSION, ...toSceneData(scene) }, null, 2);
+
+export const parseSceneJson = (text: string): Scene => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid scene: not a JSON object');
+  }
+  if (typeof data === 'object' && data !== null && 'format' in data && data.format !== SCENE_FORMAT) {
+    throw new Error('Invalid scene: unknown format');
+  }
+  return parseSceneData(data);
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+/**
+ * Compact URL form: fields that differ from the defaults, deflated and base64url-encoded.
+ */
+export const encodeSceneParam = async (scene: Scene): Promise<string> => {
+  const data = toSceneData(scene);
+  const defaults = toSceneData(DEFAULT_SCENE);
+  const changed: SceneData = { version: SCENE_VERSION };
+  Object.keys(data).forEach((key) => {
+    if (JSON.stringify(data[key]) !== JSON.stringify(defaults[key])) changed[key] = data[key];
+  });
+  const json = new TextEncoder().encode(JSON.stringify(changed));
+  return toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')));
+};
+
+export const decodeSceneParam = async (value: string): Promise<Scene> => {
+  let json: string;
+  try {
+    json = new TextDecoder().decode(await pipeBytes(fromBase64Url(value), new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new Error('Invalid scene: link is damaged');
+  }
+  return parseSceneJson(json);
+};
+
+/**
+ * Scene stored in a query string: the compact `s` parameter, or the loose keys of
+ * older links. Null if the query string holds no scene.
+ */
+export const readSceneFromSearch = async (search: string): Promise<Scene | null> => {
+  const params = new URLSearchParams(search);
+  const compact = params.get(SCENE_URL_PARAM);
+  if (compact) return decodeSceneParam(compact);
+  if ([...params.keys()].length === 0) return null;
+  return parseSceneData({ ...Object.fromEntries(params), version: 0 });
+};
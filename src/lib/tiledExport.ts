@@ -0,0 +1,176 @@
+/**
+ * High-resolution image export, rendered tile by tile
+ *
+ * The output can be far larger than the screen, and a full-size density buffer
+ * (hit counts plus float color sums) would need 16 bytes per pixel. Instead the
+ * current render's batches are recomputed once per tile, and each tile keeps only
+ * the roots that land inside it. After a tile finishes, its average colors go
+ * straight into the output canvas and its hit counts into one image-wide array.
+ *
+ * Tone mapping normalizes by the maximum count (and, when equalizing, by the count
+ * histogram), so it runs only once every tile is done, over the whole image. Tone
+ * mapping each tile on its own would leave visible seams.
+ */
+
+import { DensityBuffer, ToneMappingSettings, createDensityBuffer, createToneMapper, getToneMapStats } from './density';
+import { RootBatchRequest, RootBatchResult } from './rootBatch';
+import { RootWorkerPool } from './rootWorkerPool';
+
+export interface ExportPreset {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { label: '4K UHD', width: 3840, height: 2160 },
+  { label: '4096 × 4096', width: 4096, height: 4096 },
+  { label: '8192 × 8192', width: 8192, height: 8192 },
+  { label: 'A4 @ 300 dpi', width: 3508, height: 2480 },
+  { label: 'A3 @ 300 dpi', width: 4961, height: 3508 },
+  { label: 'A2 @ 300 dpi', width: 7016, height: 4961 },
+];
+
+// Largest side browsers reliably allocate a canvas for
+export const MAX_EXPORT_SIDE = 16384;
+// Pixel budget: the image-wide hit counts and the output canvas take 4 bytes per pixel each
+export const MAX_EXPORT_PIXELS = 8192 * 8192;
+// Each tile holds a full density buffer (16 bytes per pixel, 256 MB at this size)
+const EXPORT_TILE_SIZE = 4096;
+
+export interface ExportTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const getExportTiles = (width: number, height: number, tileSize: number = EXPORT_TILE_SIZE): ExportTile[] => {
+  const tiles: ExportTile[] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      tiles.push({ x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) });
+    }
+  }
+  return tiles;
+};
+
+/**
+ * Reason the size cannot be exported, or null if it can.
+ */
+export const validateExportSize = (width: number, height: number): string | null => {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    return 'Width and height must be positive whole numbers';
+  }
+  if (width > MAX_EXPORT_SIDE || height > MAX_EXPORT_SIDE) {
+    return `Each side must be at most ${MAX_EXPORT_SIDE.toLocaleString()} px`;
+  }
+  if (width * height > MAX_EXPORT_PIXELS) {
+    return `At most ${(MAX_EXPORT_PIXELS / 1e6).toFixed(0)} megapixels`;
+  }
+  return null;
+};
+
+export interface TiledRenderOptions {
+  width: number;
+  height: number;
+  pool: RootWorkerPool;
+  // Render id used for the export's batches (must not collide with a canvas render)
+  renderId: number;
+  batchCount: number;
+  createRequest: (renderId: number, batchIndex: number) => RootBatchRequest;
+  // Accumulate the roots of one batch that fall inside the tile (tile-local pixel coordinates)
+  drawBatch: (batch: RootBatchResult, buffer: DensityBuffer, tile: ExportTile) => void;
+  toneMapping: ToneMappingSettings;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Render the tone-mapped density image at the requested size. Resolves with a
+ * canvas (transparent where nothing was hit), or null if it was cancelled. Throws if a
+ * batch could not be computed.
+ */
+export const renderTiledDensityImage = async (options: TiledRenderOptions): Promise<HTMLCanvasElement | null> => {
+  const { width, height, pool, renderId, batchCount, createRequest, drawBatch, toneMapping, onProgress, signal } = options;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { alpha: true });
+  if (!ctx) throw new Error(`Could not allocate a ${width}×${height} canvas`);
+
+  const tiles = getExportTiles(width, height);
+  const counts = new Uint32Array(width * height);
+  let maxCount = 0;
+
+  for (let t = 0; t < tiles.length; t++) {
+    const tile = tiles[t];
+    const buffer = createDensityBuffer(tile.width, tile.height);
+
+    // Batches only touch this tile's buffer, so they can be drawn in any order
+    let nextBatch = 0;
+    let finishedBatches = 0;
+    let cancelled = false;
+    let failedBatch: number | null = null;
+    const runBatches = async () => {
+      while (nextBatch < batchCount && !cancelled) {
+        const batchIndex = nextBatch++;
+        const result = await pool.submit(createRequest(renderId, batchIndex));
+        if (!result || signal?.aborted) {
+          // Not cancelled, so the batch failed (the pool logs why)
+          if (!result && !signal?.aborted) failedBatch = batchIndex;
+          cancelled = true;
+          return;
+        }
+        drawBatch(result, buffer, tile);
+        finishedBatches++;
+        onProgress?.(((t + finishedBatches / batchCount) / tiles.length) * 100);
+      }
+    };
+    await Promise.all(Array.from({ length: pool.size * 2 }, runBatches));
+
+    if (cancelled || signal?.aborted) {
+      pool.cancel(renderId);
+      if (failedBatch !== null) throw new Error(`Batch ${failedBatch} could not be computed`);
+      return null;
+    }
+
+    // Keep the counts for tone mapping; store the average colors, fully opaque for now
+    const imageData = ctx.createImageData(tile.width, tile.height);
+    const pixels = imageData.data;
+    for (let ty = 0; ty < tile.height; ty++) {
+      for (let tx = 0; tx < tile.width; tx++) {
+        const i = ty * tile.width + tx;
+        const count = buffer.counts[i];
+        if (count === 0) continue;
+        counts[(tile.y + ty) * width + tile.x + tx] = count;
+        pixels[i * 4] = buffer.colorSums[i * 3] / count;
+        pixels[i * 4 + 1] = buffer.colorSums[i * 3 + 1] / count;
+        pixels[i * 4 + 2] = buffer.colorSums[i * 3 + 2] / count;
+        pixels[i * 4 + 3] = 255;
+      }
+    }
+    ctx.putImageData(imageData, tile.x, tile.y);
+    maxCount = Math.max(maxCount, buffer.maxCount);
+  }
+
+  // Tone-map every tile against image-wide statistics
+  if (maxCount > 0) {
+    const toneMap = createToneMapper(toneMapping, getToneMapStats(counts, maxCount, toneMapping.mode));
+    for (const tile of tiles) {
+      const imageData = ctx.getImageData(tile.x, tile.y, tile.width, tile.height);
+      const pixels = imageData.data;
+      for (let ty = 0; ty < tile.height; ty++) {
+        for (let tx = 0; tx < tile.width; tx++) {
+          const count = counts[(tile.y + ty) * width + tile.x + tx];
+          if (count > 0) pixels[(ty * tile.width + tx) * 4 + 3] = toneMap(count) * 255;
+        }
+      }
+      ctx.putImageData(imageData, tile.x, tile.y);
+    }
+  }
+
+  onProgress?.(100);
+  return canvas;
+};
@@ -0,0 +1,74 @@
+/**
+ * Undo/redo history of immutable state snapshots
+ *
+ * `past` holds the states before each recorded edit (most recent last) and
+ * `future` the states undone since, so redo can bring them back. Recording a
+ * new edit clears `future`. An edit made of many small updates (a drag, a
+ * slider gesture) is recorded once, at its start.
+ */
+
+export interface UndoHistory<T> {
+  past: T[];
+  future: T[];
+  // Group of the most recent record; consecutive records of the same group merge into one step
+  lastGroup: string | null;
+}
+
+export const UNDO_HISTORY_LIMIT = 100;
+
+export const createUndoHistory = <T>(): UndoHistory<T> => ({
+  past: [],
+  future: [],
+  lastGroup: null,
+});
+
+/**
+ * Record the state before an edit. Records that repeat the previous state are
+ * dropped, as are records of the same group as the previous one; only a new entry
+ * clears the redo stack.
+ */
+export const recordUndoState = <T>(
+  history: UndoHistory<T>,
+  state: T,
+  isEqual: (a: T, b: T) => boolean,
+  group: string | null = null
+): void => {
+  if (group !== null && group === history.lastGroup) return;
+  history.lastGroup = group;
+
+  const previous = history.past[history.past.length - 1];
+  if (previous !== undefined && isEqual(previous, state)) return;
+  history.future = [];
+  history.past.push(state);
+  if (history.past.length > UNDO_HISTORY_LIMIT) history.past.shift();
+};
+
+/**
+ * Step back from the current state. Returns the state to restore, or null if
+ * there is nothing to undo. Recorded states equal to the current one (edits
+ * that changed nothing) are skipped.
+ */
+export const undoState = <T>(history: UndoHistory<T>, current: T, isEqual: (a: T, b: T) => boolean): T | null => {
+  while (history.past.length > 0) {
+    const state = history.past.pop()!;
+    if (isEqual(state, current)) continue;
+    history.future.push(current);
+    history.lastGroup = null;
+    return state;
+  }
+  return null;
+};
+
+export const redoState = <T>(history: UndoHistory<T>, current: T): T | null => {
+  const state = history.future.pop();
+  if (state === undefined) return null;
+  history.past.push(current);
+  history.lastGroup = null;
+  return state;
+};
+
+export const clearUndoHistory = <T>(history: UndoHistory<T>): void => {
+  history.past = [];
+  history.future = [];
+  history.lastGroup = null;
+};
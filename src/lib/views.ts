@@ -0,0 +1,129 @@
+/**
+ * Views: bookmarks and navigation history
+ *
+ * A view is the visible window of the complex plane: its center (offsetX, offsetY)
+ * and zoom. Named bookmarks keep a view together with a small thumbnail in
+ * localStorage. Navigation history uses the browser's own history: every view the
+ * user settles on gets an entry (pushState), so back and forward, from the browser or
+ * the keyboard, step between views.
+ */
+
+import { z } from 'zod';
+
+export interface View {
+  offsetX: number;
+  offsetY: number;
+  zoom: number;
+}
+
+export interface ViewBookmark {
+  id: string;
+  name: string;
+  view: View;
+  // JPEG data URL of the canvas when the bookmark was saved
+  thumbnail: string;
+  createdAt: number;
+}
+
+const VIEW_BOOKMARKS_STORAGE_KEY = 'littlewood-view-bookmarks';
+// Side of the square bookmark thumbnails, in pixels
+export const VIEW_THUMBNAIL_SIZE = 96;
+// How long a view must stay unchanged before it becomes a history entry (ms)
+export const VIEW_SETTLE_DELAY = 600;
+export const FLY_TO_DURATION = 900;
+
+const viewSchema = z.object({
+  offsetX: z.number().finite(),
+  offsetY: z.number().finite(),
+  zoom: z.number().finite().positive(),
+});
+
+const bookmarkSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  view: viewSchema,
+  thumbnail: z.string(),
+  createdAt: z.number(),
+});
+
+export const isSameView = (a: View, b: View): boolean =>
+  a.offsetX === b.offsetX && a.offsetY === b.offsetY && a.zoom === b.zoom;
+
+/**
+ * Saved bookmarks, oldest first. Entries that do not parse are dropped.
+ */
+export const loadViewBookmarks = (): ViewBookmark[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VIEW_BOOKMARKS_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((entry) => {
+      const result = bookmarkSchema.safeParse(entry);
+      return result.success ? [result.data as ViewBookmark] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Store the bookmarks. Returns false if storage is unavailable or full.
+ */
+export const saveViewBookmarks = (bookmarks: ViewBookmark[]): boolean => {
+  try {
+    localStorage.setItem(VIEW_BOOKMARKS_STORAGE_KEY, JSON.stringify(bookmarks));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Square thumbnail of the center of a canvas, as a JPEG data URL.
+ */
+export const createViewThumbnail = (source: HTMLCanvasElement, size: number = VIEW_THUMBNAIL_SIZE): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  const side = Math.min(source.width, source.height);
+  ctx.drawImage(source, (source.width - side) / 2, (source.height - side) / 2, side, side, 0, 0, size, size);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+const easeInOut = (t: number): number => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
+
+/**
+ * View at time t (0..1) of an animated flight between two views.
+ *
+ * Zoom is interpolated geometrically, so each frame scales by the same factor.
+ * The center moves in proportion to 1/zoom (the visible width), which keeps one
+ * point of the plane fixed on screen, as when zooming with the mouse, instead of
+ * letting the target drift in and out of view.
+ */
+export const interpolateView = (from: View, to: View, t: number): View => {
+  const s = easeInOut(Math.min(Math.max(t, 0), 1));
+  const zoom = from.zoom * (to.zoom / from.zoom) ** s;
+
+  const widthChange = 1 / to.zoom - 1 / from.zoom;
+  // Same zoom (or nearly): plain linear pan
+  const u = Math.abs(widthChange) < 1e-9 / to.zoom ? s : (1 / zoom - 1 / from.zoom) / widthChange;
+
+  return {
+    offsetX: from.offsetX + (to.offsetX - from.offsetX) * u,
+    offsetY: from.offsetY + (to.offsetY - from.offsetY) * u,
+    zoom,
+  };
+};
+
+// Entry of the browser history; depth counts the view entries before it
+export interface ViewHistoryState {
+  view: View;
+  depth: number;
+}
+
+export const readViewHistoryState = (state: unknown): ViewHistoryState | null => {
+  const result = z.object({ view: viewSchema, depth: z.number().int().nonnegative() }).safeParse(state);
+  return result.success ? (result.data as ViewHistoryState) : null;
+};
@@ -1,14 +1,49 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo, DragEvent } from "react";
 import { FractalCanvas, FractalCanvasRef } from "@/components/FractalCanvas";
 import { ControlPanel } from "@/components/ControlPanel";
 import { toast } from "@/components/ui/sonner";
-import { GridConfig, DEFAULT_GRID_CONFIG } from "@/lib/grid";
-import { SamplingConfig, DEFAULT_SAMPLING_CONFIG } from "@/lib/sampling";
+import { GridConfig } from "@/lib/grid";
+import { SamplingConfig } from "@/lib/sampling";
+import { ToneMapping } from "@/lib/density";
+import { ColorMode, RenderMode } from "@/lib/renderModes";
+import { RootExportFormat, ROOT_EXPORT_EXTENSIONS } from "@/lib/rootExport";
+import { ExportDialog } from "@/components/ExportDialog";
+import { DEFAULT_MOD_LAYERS, ModLayersConfig } from "@/lib/modLayers";
+import {
+  Scene,
+  DEFAULT_SCENE,
+  SCENE_PNG_KEYWORD,
+  SCENE_URL_PARAM,
+  encodeSceneParam,
+  parseSceneJson,
+  readSceneFromSearch,
+  serializeSceneJson,
+} from "@/lib/scene";
+import { addPngText, readPngText } from "@/lib/pngMetadata";
+import { clearUndoHistory, createUndoHistory, recordUndoState, redoState, undoState } from "@/lib/undoHistory";
+import {
+  View,
+  ViewBookmark,
+  VIEW_SETTLE_DELAY,
+  createViewThumbnail,
+  isSameView,
+  loadViewBookmarks,
+  readViewHistoryState,
+  saveViewBookmarks,
+} from "@/lib/views";
+import {
+  RootSolver,
+  FamilyTransform,
+  MatrixStructure,
+  getMatrixEntryCount,
+} from "@/lib/math";
+import {
+  PositionSetOverrides,
+  resolvePositionSets,
+} from "@/lib/coefficientSets";
 import {
   generateCoefficient,
   generateAllCoefficients,
-  DEFAULT_RE_FORMULA,
-  DEFAULT_IM_FORMULA,
 } from "@/lib/coefficientFormula";
 
 interface Complex {
@@ -23,67 +58,92 @@ interface ConvergenceStats {
   avgIterations: number;
 }
 
-export type ColorMode = 'by_index' | 'by_leading_coeff';
-
-// Blend mode mapping for URL encoding/decoding
-const BLEND_MODES: GlobalCompositeOperation[] = [
-  'source-over',
-  'multiply',
-  'screen',
-  'overlay',
-  'color-dodge',
-  'hue',
-  'difference',
-  'xor'
-];
-
-const blendModeToIndex = (mode: GlobalCompositeOperation): number => {
-  const index = BLEND_MODES.indexOf(mode);
-  return index >= 0 ? index : 0;
-};
+// State restored by undo/redo
+interface CoefficientSnapshot {
+  degree: number;
+  coefficients: Complex[];
+}
 
-const indexToBlendMode = (index: number): GlobalCompositeOperation => {
-  return BLEND_MODES[index] || 'source-over';
-};
+const isSameSnapshot = (a: CoefficientSnapshot, b: CoefficientSnapshot): boolean =>
+  a.degree === b.degree &&
+  a.coefficients.length === b.coefficients.length &&
+  a.coefficients.every((c, i) => c.re === b.coefficients[i].re && c.im === b.coefficients[i].im);
 
 const Index = () => {
   const fractalCanvasRef = useRef<FractalCanvasRef>(null);
-  const [degree, setDegree] = useState(7);
-  const [maxRoots, setMaxRoots] = useState(20000);
-  const [transparency, setTransparency] = useState(0.9);
-  const [colorBandWidth, setColorBandWidth] = useState(1.0); // 0.0 = batch size, 1.0 = total roots
-  const [colorMode, setColorMode] = useState<ColorMode>('by_index');
-  const [blendMode, setBlendMode] = useState<GlobalCompositeOperation>('source-over');
-  const [gammaCorrection, setGammaCorrection] = useState(0); // -1 to 1, 0 = linear (no correction)
+  const [degree, setDegree] = useState(DEFAULT_SCENE.degree);
+  const [maxRoots, setMaxRoots] = useState(DEFAULT_SCENE.maxRoots);
+  const [colorBandWidth, setColorBandWidth] = useState(DEFAULT_SCENE.colorBandWidth); // 0.0 = batch size, 1.0 = total roots
+  const [colorMode, setColorMode] = useState<ColorMode>(DEFAULT_SCENE.colorMode);
+  const [renderMode, setRenderMode] = useState<RenderMode>(DEFAULT_SCENE.renderMode);
+  const [matrixStructure, setMatrixStructure] = useState<MatrixStructure>(DEFAULT_SCENE.matrixStructure);
+  const [dragonPoint, setDragonPoint] = useState<Complex>(DEFAULT_SCENE.dragonPoint); // z for the dragon set {P(z)}
+  const [toneMapping, setToneMapping] = useState<ToneMapping>(DEFAULT_SCENE.toneMapping);
+  const [exposure, setExposure] = useState(DEFAULT_SCENE.exposure); // Stops, brightness x 2^exposure
+  const [gammaCorrection, setGammaCorrection] = useState(DEFAULT_SCENE.gammaCorrection); // -1 to 1, 0 = linear (no correction)
   const [autoClearCanvas, setAutoClearCanvas] = useState(true); // Auto-clear canvas on param changes (experimental)
   const [autoRestart, setAutoRestart] = useState(true); // Auto-restart render on param changes (experimental)
-  const [offsetX, setOffsetX] = useState(0); // Pan offset in complex plane units
-  const [offsetY, setOffsetY] = useState(0); // Pan offset in complex plane units
-  const [zoom, setZoom] = useState(1); // Zoom level (1 = default, 2 = 2x zoomed in)
-  const [polynomialNeighborRange, setPolynomialNeighborRange] = useState(5); // ±N polynomials around hovered one
+  const [offsetX, setOffsetX] = useState(DEFAULT_SCENE.offsetX); // Pan offset in complex plane units
+  const [offsetY, setOffsetY] = useState(DEFAULT_SCENE.offsetY); // Pan offset in complex plane units
+  const [zoom, setZoom] = useState(DEFAULT_SCENE.zoom); // Zoom level (1 = default, 2 = 2x zoomed in)
+  const [polynomialNeighborRange, setPolynomialNeighborRange] = useState(DEFAULT_SCENE.polynomialNeighborRange); // ±N polynomials around hovered one
   const [isLandscape, setIsLandscape] = useState(window.innerWidth > window.innerHeight);
   const maxIterations = 100; // Fixed value
-  const [gridConfig, setGridConfig] = useState<GridConfig>(DEFAULT_GRID_CONFIG);
-  const [samplingConfig, setSamplingConfig] = useState<SamplingConfig>(DEFAULT_SAMPLING_CONFIG);
-  const [coefficients, setCoefficients] = useState<Complex[]>([
-    { re: 1, im: 0 },
-    { re: -1, im: 0 },
-    { re: 0, im: 0 },
-  ]);
+  const [gridConfig, setGridConfig] = useState<GridConfig>(DEFAULT_SCENE.gridConfig);
+  const [samplingConfig, setSamplingConfig] = useState<SamplingConfig>(DEFAULT_SCENE.samplingConfig);
+  const [rootSolver, setRootSolver] = useState<RootSolver>(DEFAULT_SCENE.rootSolver);
+  const [familyTransform, setFamilyTransform] = useState<FamilyTransform>(DEFAULT_SCENE.familyTransform);
+  const [modLayers, setModLayers] = useState<ModLayersConfig>(DEFAULT_MOD_LAYERS);
+  const [coefficients, setCoefficients] = useState<Complex[]>(DEFAULT_SCENE.coefficients);
+  // Per-power restrictions of the coefficient palette (unrestricted powers use all coefficients)
+  const [positionSetOverrides, setPositionSetOverrides] = useState<PositionSetOverrides>(DEFAULT_SCENE.positionSetOverrides);
+  // In Bohemian mode the positions are the free matrix entries (degree = matrix size)
+  const lastPosition = renderMode === 'bohemian' ? getMatrixEntryCount(matrixStructure, degree) - 1 : degree;
+  const positionSets = useMemo(
+    () => resolvePositionSets(positionSetOverrides, lastPosition, coefficients.length),
+    [positionSetOverrides, lastPosition, coefficients.length]
+  );
 
   // Transform target state
   const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null);
   const [transformTarget, setTransformTarget] = useState<'all' | 'even' | 'odd' | 'selected'>('all');
 
   // Coefficient formula state
-  const [reFormula, setReFormula] = useState(DEFAULT_RE_FORMULA);
-  const [imFormula, setImFormula] = useState(DEFAULT_IM_FORMULA);
+  const [reFormula, setReFormula] = useState(DEFAULT_SCENE.reFormula);
+  const [imFormula, setImFormula] = useState(DEFAULT_SCENE.imFormula);
+
+  // Undo/redo of coefficient and degree edits
+  const historyRef = useRef(createUndoHistory<CoefficientSnapshot>());
+
+  // Remember the state before an edit; edits of one group in a row form one undo step
+  const recordHistory = useCallback((group: string | null = null) => {
+    recordUndoState(historyRef.current, { degree, coefficients }, isSameSnapshot, group);
+  }, [degree, coefficients]);
+
+  const restoreSnapshot = (snapshot: CoefficientSnapshot) => {
+    setDegree(snapshot.degree);
+    setCoefficients(snapshot.coefficients);
+    // A selection may point past the end of a shorter palette
+    setLastSelectedIndex((index) => (index !== null && index < snapshot.coefficients.length ? index : null));
+  };
 
-  const handleExportPNG = () => {
-    const exportCanvas = fractalCanvasRef.current?.exportToCanvas();
-    if (!exportCanvas) return;
+  const handleUndo = () => {
+    const snapshot = undoState(historyRef.current, { degree, coefficients }, isSameSnapshot);
+    if (snapshot) restoreSnapshot(snapshot);
+  };
 
-    // Generate timestamp: ГГГГММДД_ЧЧММСС_ММС
+  const handleRedo = () => {
+    const snapshot = redoState(historyRef.current, { degree, coefficients });
+    if (snapshot) restoreSnapshot(snapshot);
+  };
+
+  const handleDegreeChange = (value: number) => {
+    recordHistory('degree');
+    setDegree(value);
+  };
+
+  // Generate timestamp: ГГГГММДД_ЧЧММСС_ММС
+  const getExportTimestamp = () => {
     const now = new Date();
     const year = now.getFullYear();
     const month = String(now.getMonth() + 1).padStart(2, '0');
@@ -92,19 +152,212 @@ const Index = () => {
     const minutes = String(now.getMinutes()).padStart(2, '0');
     const seconds = String(now.getSeconds()).padStart(2, '0');
     const milliseconds = String(now.getMilliseconds()).padStart(3, '0');
-    const timestamp = `${year}${month}${day}_${hours}${minutes}${seconds}_${milliseconds}`;
-    const filename = `littlewood_${timestamp}.png`;
+    return `${year}${month}${day}_${hours}${minutes}${seconds}_${milliseconds}`;
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Full state for the URL, scene files and PNG metadata
+  const scene = useMemo((): Scene => ({
+    degree,
+    coefficients,
+    positionSetOverrides,
+    maxRoots,
+    colorBandWidth,
+    colorMode,
+    renderMode,
+    matrixStructure,
+    dragonPoint,
+    toneMapping,
+    exposure,
+    gammaCorrection,
+    offsetX,
+    offsetY,
+    zoom,
+    polynomialNeighborRange,
+    gridConfig,
+    samplingConfig,
+    rootSolver,
+    familyTransform,
+    reFormula,
+    imFormula,
+  }), [degree, coefficients, positionSetOverrides, maxRoots, colorBandWidth, colorMode, renderMode, matrixStructure, dragonPoint, toneMapping, exposure, gammaCorrection, offsetX, offsetY, zoom, polynomialNeighborRange, gridConfig, samplingConfig, rootSolver, familyTransform, reFormula, imFormula]);
+
+  const applyScene = useCallback((scene: Scene) => {
+    setDegree(scene.degree);
+    setCoefficients(scene.coefficients);
+    setPositionSetOverrides(scene.positionSetOverrides);
+    setMaxRoots(scene.maxRoots);
+    setColorBandWidth(scene.colorBandWidth);
+    setColorMode(scene.colorMode);
+    setRenderMode(scene.renderMode);
+    setMatrixStructure(scene.matrixStructure);
+    setDragonPoint(scene.dragonPoint);
+    setToneMapping(scene.toneMapping);
+    setExposure(scene.exposure);
+    setGammaCorrection(scene.gammaCorrection);
+    setOffsetX(scene.offsetX);
+    setOffsetY(scene.offsetY);
+    setZoom(scene.zoom);
+    setPolynomialNeighborRange(scene.polynomialNeighborRange);
+    setGridConfig(scene.gridConfig);
+    setSamplingConfig(scene.samplingConfig);
+    setRootSolver(scene.rootSolver);
+    setFamilyTransform(scene.familyTransform);
+    setReFormula(scene.reFormula);
+    setImFormula(scene.imFormula);
+    setLastSelectedIndex(null);
+    // Earlier edits belong to a different scene
+    clearUndoHistory(historyRef.current);
+  }, []);
+
+  // Encode an exported image as PNG with the scene in an iTXt chunk
+  const encodePngWithScene = async (canvas: HTMLCanvasElement): Promise<Blob | null> => {
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve));
+    if (!blob) return null;
+    const png = addPngText(await blob.arrayBuffer(), SCENE_PNG_KEYWORD, serializeSceneJson(scene));
+    return png ? new Blob([png], { type: 'image/png' }) : blob;
+  };
+
+  const handleExportPNG = async () => {
+    const exportCanvas = fractalCanvasRef.current?.exportToCanvas();
+    if (!exportCanvas) return;
+
+    const filename = `littlewood_${getExportTimestamp()}.png`;
 
     // Convert canvas to blob and download
-    exportCanvas.toBlob((blob) => {
-      if (!blob) return;
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename;
-      link.click();
-      URL.revokeObjectURL(url);
-    });
+    const blob = await encodePngWithScene(exportCanvas);
+    if (!blob) return;
+    downloadBlob(blob, filename);
+  };
+
+  // One PNG per modulo-class layer, hidden ones included
+  const handleExportModLayers = async () => {
+    const layers = fractalCanvasRef.current?.exportModLayers() ?? [];
+    if (layers.length === 0) {
+      toast.error('No layers to export: turn on the layers and let the render draw some roots');
+      return;
+    }
+
+    const timestamp = getExportTimestamp();
+    for (const { residue, canvas } of layers) {
+      const blob = await encodePngWithScene(canvas);
+      if (!blob) continue;
+      downloadBlob(blob, `littlewood_${timestamp}_mod${modLayers.modulus}_r${residue}.png`);
+    }
+  };
+
+  // Restore a scene from a PNG (embedded metadata) or scene JSON file
+  const restoreSceneFromFile = async (file: File) => {
+    try {
+      let text: string;
+      if (file.type === 'image/png' || file.name.toLowerCase().endsWith('.png')) {
+        const entries = readPngText(await file.arrayBuffer());
+        if (!entries?.[SCENE_PNG_KEYWORD]) {
+          toast.error('This PNG has no embedded scene');
+          return;
+        }
+        text = entries[SCENE_PNG_KEYWORD];
+      } else {
+        text = await file.text();
+      }
+      applyScene(parseSceneJson(text));
+      toast(`Scene restored from ${file.name}`, { duration: 2000 });
+    } catch (error) {
+      console.error('[Scene] Failed to restore:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not read scene');
+    }
+  };
+
+  const handleSceneDrop = (e: DragEvent) => {
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    e.preventDefault();
+    restoreSceneFromFile(file);
+  };
+
+  const handleSaveScene = () => {
+    const blob = new Blob([serializeSceneJson(scene)], { type: 'application/json' });
+    downloadBlob(blob, `littlewood_scene_${getExportTimestamp()}.json`);
+  };
+
+  // Hidden file input behind "Open scene"
+  const sceneFileInputRef = useRef<HTMLInputElement>(null);
+
+  // High-resolution export dialog; progress is null while no export runs
+  const [highResDialogOpen, setHighResDialogOpen] = useState(false);
+  const [highResProgress, setHighResProgress] = useState<number | null>(null);
+  const highResExportRef = useRef<AbortController | null>(null);
+
+  const handleExportHighRes = async (width: number, height: number) => {
+    const canvas = fractalCanvasRef.current;
+    if (!canvas || highResExportRef.current) return;
+
+    const controller = new AbortController();
+    highResExportRef.current = controller;
+    const filename = `littlewood_${width}x${height}_${getExportTimestamp()}.png`;
+    setHighResProgress(0);
+
+    try {
+      const image = await canvas.exportHighRes(width, height, setHighResProgress, controller.signal);
+      const blob = image && await encodePngWithScene(image);
+      if (controller.signal.aborted || !image) {
+        toast('High-resolution export cancelled', { duration: 2000 });
+      } else if (!blob) {
+        // toBlob fails when the browser cannot encode an image this large
+        toast.error(`Could not encode a ${width}×${height} PNG`);
+      } else {
+        downloadBlob(blob, filename);
+        toast.success(`Exported ${width}×${height} PNG`, { duration: 3000 });
+        setHighResDialogOpen(false);
+      }
+    } catch (error) {
+      console.error('[High-Res Export] Failed:', error);
+      toast.error(error instanceof Error ? error.message : 'High-resolution export failed');
+    } finally {
+      highResExportRef.current = null;
+      setHighResProgress(null);
+    }
+  };
+
+  // Root export in progress (one at a time), cancelled through its controller
+  const rootExportRef = useRef<AbortController | null>(null);
+
+  const handleExportRoots = async (format: RootExportFormat) => {
+    const canvas = fractalCanvasRef.current;
+    if (!canvas || rootExportRef.current) return;
+
+    const controller = new AbortController();
+    rootExportRef.current = controller;
+    const filename = `littlewood_roots_${getExportTimestamp()}.${ROOT_EXPORT_EXTENSIONS[format]}`;
+    const cancelAction = { label: 'Cancel', onClick: () => controller.abort() };
+    const toastId = toast.loading('Exporting roots…', { action: cancelAction });
+
+    try {
+      const rows = await canvas.exportRoots(format, filename, (progress, rowCount) => {
+        toast.loading(`Exporting roots… ${progress.toFixed(0)}% (${rowCount.toLocaleString()} rows)`, {
+          id: toastId,
+          action: cancelAction,
+        });
+      }, controller.signal);
+      if (rows === null) {
+        toast('Root export cancelled', { id: toastId, duration: 2000 });
+      } else {
+        toast.success(`Exported ${rows.toLocaleString()} roots`, { id: toastId, duration: 3000 });
+      }
+    } catch (error) {
+      console.error('[Root Export] Failed:', error);
+      toast.error('Root export failed', { id: toastId });
+    } finally {
+      rootExportRef.current = null;
+    }
   };
 
   const handleExportLink = () => {
@@ -122,6 +375,7 @@ const Index = () => {
   };
 
   const handleCoefficientCountChange = (count: number) => {
+    recordHistory();
     const newCoeffs = [...coefficients];
     if (count > coefficients.length) {
       // Add new coefficients using formula
@@ -138,6 +392,7 @@ const Index = () => {
   // Apply formula to coefficients based on transformTarget
   const handleApplyFormula = useCallback(() => {
     const generated = generateAllCoefficients(reFormula, imFormula, coefficients.length);
+    recordHistory();
     setCoefficients(coefficients.map((c, i) => {
       switch (transformTarget) {
         case 'all': return generated[i];
@@ -146,17 +401,19 @@ const Index = () => {
         case 'selected': return i === lastSelectedIndex ? generated[i] : c;
       }
     }));
-  }, [reFormula, imFormula, coefficients, transformTarget, lastSelectedIndex]);
+  }, [reFormula, imFormula, coefficients, transformTarget, lastSelectedIndex, recordHistory]);
 
   // Coefficient transform state - use ref for immediate access (no async delay)
   const transformBaseCoeffsRef = useRef<Complex[] | null>(null);
   const randomOffsetsRef = useRef<{re: number, im: number}[] | null>(null);
 
   // Start transform - capture current coefficients immediately and reset random offsets
+  // (the whole slider gesture is one undo step)
   const handleTransformStart = useCallback(() => {
+    recordHistory();
     transformBaseCoeffsRef.current = [...coefficients];
     randomOffsetsRef.current = null; // Reset so new random offsets are generated each drag
-  }, [coefficients]);
+  }, [coefficients, recordHistory]);
 
   // End transform - commit and reset base
   const handleTransformEnd = useCallback(() => {
@@ -284,309 +541,126 @@ const Index = () => {
     setZoom(1);
   };
 
-  // Parse URL parameters on component mount
-  useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-
-    // Parse degree (d)
-    const degreeParam = params.get('d');
-    if (degreeParam) {
-      const parsedDegree = parseInt(degreeParam, 10);
-      if (!isNaN(parsedDegree) && parsedDegree >= 1) {
-        setDegree(parsedDegree);
-      }
-    }
-
-    // TODO no magic constants, limits should be explicitly named
-    // Parse coefficient count and coordinates
-    const coeffCountParam = params.get('c');
-    if (coeffCountParam) {
-      const parsedCount = parseInt(coeffCountParam, 10);
-      if (!isNaN(parsedCount) && parsedCount >= 1) {
-        const newCoeffs: Complex[] = [];
-
-        // Try to parse coordinates for each coefficient
-        for (let i = 1; i <= parsedCount; i++) {
-          const xParam = params.get(`c${i}x`);
-          const yParam = params.get(`c${i}y`);
-
-          if (xParam && yParam) {
-            const x = parseFloat(xParam);
-            const y = parseFloat(yParam);
-
-            if (!isNaN(x) && !isNaN(y)) {
-              newCoeffs.push({ re: x, im: y });
-            } else {
-              // If parsing fails, use default value
-              const angle = (2 * Math.PI * (i - 1)) / parsedCount;
-              newCoeffs.push({ re: Math.cos(angle), im: Math.sin(angle) });
-            }
-          } else {
-            // If coordinate not found, use default value
-            const angle = (2 * Math.PI * (i - 1)) / parsedCount;
-            newCoeffs.push({ re: Math.cos(angle), im: Math.sin(angle) });
-          }
-        }
-
-        if (newCoeffs.length === parsedCount) {
-          setCoefficients(newCoeffs);
-        }
-      }
-    }
-
-    // Parse max roots (max) - "inf" means Infinity
-    const maxParam = params.get('max');
-    if (maxParam) {
-      if (maxParam === 'inf') {
-        setMaxRoots(Infinity);
-      } else {
-        const parsedMax = Number(maxParam);
-        if (!isNaN(parsedMax) && parsedMax > 0) {
-          setMaxRoots(parsedMax);
-        }
-      }
-    }
-
-    // Parse transparency (t)
-    const tParam = params.get('t');
-    if (tParam) {
-      const parsedT = parseFloat(tParam);
-      if (!isNaN(parsedT) && parsedT >= 0.001 && parsedT <= 1.0) {
-        setTransparency(parsedT);
-      }
-    }
-
-    // Parse color band width (cbw)
-    const cbwParam = params.get('cbw');
-    if (cbwParam) {
-      const parsedCbw = parseFloat(cbwParam);
-      if (!isNaN(parsedCbw) && parsedCbw >= 0.0 && parsedCbw <= 1.0) {
-        setColorBandWidth(parsedCbw);
-      }
-    }
-
-    // Parse color mode (cm)
-    const cmParam = params.get('cm');
-    if (cmParam) {
-      if (cmParam === 'by_index' || cmParam === 'by_leading_coeff') {
-        setColorMode(cmParam);
-      }
-    }
-
-    // Parse blend mode (bm)
-    const bmParam = params.get('bm');
-    if (bmParam) {
-      const parsedBm = parseInt(bmParam, 10);
-      if (!isNaN(parsedBm) && parsedBm >= 0 && parsedBm < BLEND_MODES.length) {
-        setBlendMode(indexToBlendMode(parsedBm));
-      }
-    }
+  // The URL is only rewritten once the scene it carried on page load has been read
+  const [isUrlSceneLoaded, setIsUrlSceneLoaded] = useState(false);
 
-    // Parse gamma correction (gm)
-    const gmParam = params.get('gm');
-    if (gmParam) {
-      const parsedGm = parseFloat(gmParam);
-      if (!isNaN(parsedGm) && parsedGm >= -3 && parsedGm <= 3) {
-        setGammaCorrection(parsedGm);
-      }
-    }
-
-    // Parse pan offset (0x, 0y)
-    const oxParam = params.get('0x');
-    if (oxParam) {
-      const parsedOx = parseFloat(oxParam);
-      if (!isNaN(parsedOx)) {
-        setOffsetX(parsedOx);
-      }
-    }
-
-    const oyParam = params.get('0y');
-    if (oyParam) {
-      const parsedOy = parseFloat(oyParam);
-      if (!isNaN(parsedOy)) {
-        setOffsetY(parsedOy);
-      }
-    }
-
-    // Parse zoom (z)
-    const zParam = params.get('z');
-    if (zParam) {
-      const parsedZ = parseFloat(zParam);
-      if (!isNaN(parsedZ) && parsedZ > 0 && parsedZ <= 100) {
-        setZoom(parsedZ);
-      }
-    }
-
-    // Parse hover overlay range (hor)
-    const horParam = params.get('hor');
-    if (horParam) {
-      const parsedHor = parseInt(horParam, 10);
-      if (!isNaN(parsedHor) && parsedHor >= 0) {
-        setPolynomialNeighborRange(parsedHor);
-      }
-    }
+  // Restore the scene from the URL on component mount
+  useEffect(() => {
+    readSceneFromSearch(window.location.search)
+      .then((urlScene) => {
+        if (urlScene) applyScene(urlScene);
+      })
+      .catch((error) => {
+        console.error('[Scene] Failed to read link:', error);
+        toast.error(error instanceof Error ? error.message : 'Could not read link');
+      })
+      .finally(() => setIsUrlSceneLoaded(true));
 
-    // Parse grid config
-    const newGridConfig = { ...DEFAULT_GRID_CONFIG };
-    let hasGridParams = false;
+    // Show navigation hint on page load
+    toast('use +/- and dragging for navigation, shift-drag to zoom into a rectangle, [ and ] to go back and forward, double-click to reset view', {
+      duration: 2000,
+    });
+  }, [applyScene]); // applyScene is stable - run only once on mount
 
-    // Rectangular grid
-    const grParam = params.get('gr');
-    if (grParam !== null) {
-      newGridConfig.rectangular.enabled = grParam === '1';
-      hasGridParams = true;
-    }
-    const grsParam = params.get('grs');
-    if (grsParam) {
-      const step = parseFloat(grsParam);
-      if (!isNaN(step) && step > 0) {
-        newGridConfig.rectangular.step = step;
-        hasGridParams = true;
-      }
-    }
+  // Update URL when state changes
+  const urlUpdateRef = useRef(0);
+  useEffect(() => {
+    if (!isUrlSceneLoaded) return;
 
-    // Circles
-    const gcParam = params.get('gc');
-    if (gcParam !== null) {
-      newGridConfig.circles.enabled = gcParam === '1';
-      hasGridParams = true;
-    }
-    const gcsParam = params.get('gcs');
-    if (gcsParam) {
-      const step = parseFloat(gcsParam);
-      if (!isNaN(step) && step > 0) {
-        newGridConfig.circles.step = step;
-        hasGridParams = true;
-      }
-    }
+    // Encoding is asynchronous; only the latest state may write the URL
+    const updateId = ++urlUpdateRef.current;
+    encodeSceneParam(scene).then((encoded) => {
+      if (updateId !== urlUpdateRef.current) return;
+      const params = new URLSearchParams({ [SCENE_URL_PARAM]: encoded });
 
-    // Rays
-    const gryParam = params.get('gry');
-    if (gryParam !== null) {
-      newGridConfig.rays.enabled = gryParam === '1';
-      hasGridParams = true;
-    }
-    const grcParam = params.get('grc');
-    if (grcParam) {
-      const count = parseInt(grcParam, 10);
-      if (!isNaN(count) && count > 0) {
-        newGridConfig.rays.count = count;
-        hasGridParams = true;
-      }
-    }
+      // Update URL without reloading page or adding to history (the entry keeps its view state)
+      const newUrl = `${window.location.pathname}?${params.toString()}`;
+      window.history.replaceState(window.history.state, '', newUrl);
+    });
+  }, [scene, isUrlSceneLoaded]);
 
-    // Snap settings
-    const gsParam = params.get('gs');
-    if (gsParam !== null) {
-      newGridConfig.snapEnabled = gsParam === '1';
-      hasGridParams = true;
-    }
-    const gstParam = params.get('gst');
-    if (gstParam) {
-      let threshold = parseFloat(gstParam);
-      if (!isNaN(threshold) && threshold > 0) {
-        // Backward compatibility: old values were in complex plane units (e.g., 0.05)
-        if (threshold < 1) {
-          threshold = 20;
-        }
-        newGridConfig.snapThresholdPx = threshold;
-        hasGridParams = true;
-      }
-    }
+  // View history: each view that stays put for a moment gets a browser history entry.
+  // depth is the position of the current entry, length the deepest one forward can reach.
+  const settledViewRef = useRef<View | null>(null);
+  const viewHistoryRef = useRef({ depth: 0, length: 0 });
+  const [viewHistory, setViewHistory] = useState(viewHistoryRef.current);
 
-    if (hasGridParams) {
-      setGridConfig(newGridConfig);
-    }
+  const updateViewHistory = (depth: number, length: number) => {
+    viewHistoryRef.current = { depth, length };
+    setViewHistory(viewHistoryRef.current);
+  };
 
-    // Parse sampling config
-    const samplingModeParam = params.get('sm');
-    const samplingFilterParam = params.get('sf');
-    const samplingOffsetParam = params.get('so');
-    if (samplingModeParam) {
-      const validModes = ['uniform', 'first', 'random', 'by_a0', 'by_an'];
-      if (validModes.includes(samplingModeParam)) {
-        const offset = samplingOffsetParam ? Math.max(0, Math.min(1, parseFloat(samplingOffsetParam))) : 0;
-        setSamplingConfig({
-          mode: samplingModeParam as SamplingConfig['mode'],
-          filterCoeffIndex: samplingFilterParam ? Math.max(0, parseInt(samplingFilterParam, 10) - 1) : 0,
-          offset: isNaN(offset) ? 0 : offset,
-        });
+  useEffect(() => {
+    if (!isUrlSceneLoaded) return;
+    const view = { offsetX, offsetY, zoom };
+    const timeout = window.setTimeout(() => {
+      const settled = settledViewRef.current;
+      if (settled && isSameView(settled, view)) return;
+      settledViewRef.current = view;
+
+      if (!settled) {
+        // First view after loading: label the entry we are on (it may carry a depth from before a reload)
+        const depth = readViewHistoryState(window.history.state)?.depth ?? 0;
+        window.history.replaceState({ view, depth }, '');
+        updateViewHistory(depth, depth);
+      } else {
+        // A new view drops the entries forward of this one, as the browser does
+        const depth = viewHistoryRef.current.depth + 1;
+        window.history.pushState({ view, depth }, '');
+        updateViewHistory(depth, depth);
       }
-    }
-
-    // Parse coefficient formulas
-    const reFormulaParam = params.get('fre');
-    if (reFormulaParam) {
-      setReFormula(decodeURIComponent(reFormulaParam));
-    }
-    const imFormulaParam = params.get('fim');
-    if (imFormulaParam) {
-      setImFormula(decodeURIComponent(imFormulaParam));
-    }
-
-    // Show navigation hint on page load
-    toast('use +/- and dragging for navigation, double-click to reset view', {
-      duration: 2000,
-    });
-  }, []); // Empty dependency array - run only once on mount
+    }, VIEW_SETTLE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [offsetX, offsetY, zoom, isUrlSceneLoaded]);
 
-  // Update URL when state changes
+  // Back and forward (browser buttons, keyboard or panel) fly to the entry's view
   useEffect(() => {
-    const params = new URLSearchParams();
+    const handlePopState = (e: PopStateEvent) => {
+      const state = readViewHistoryState(e.state);
+      if (!state) return;
+      // Arriving at an entry does not create a new one
+      settledViewRef.current = state.view;
+      updateViewHistory(state.depth, Math.max(viewHistoryRef.current.length, state.depth));
+      fractalCanvasRef.current?.flyTo(state.view);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
 
-    // Add all parameters
-    params.set('d', degree.toString());
-    params.set('c', coefficients.length.toString());
+  const handleViewBack = () => {
+    if (viewHistoryRef.current.depth > 0) window.history.back();
+  };
 
-    coefficients.forEach((coeff, i) => {
-      params.set(`c${i + 1}x`, coeff.re.toFixed(6));
-      params.set(`c${i + 1}y`, coeff.im.toFixed(6));
-    });
+  const handleViewForward = () => {
+    if (viewHistoryRef.current.depth < viewHistoryRef.current.length) window.history.forward();
+  };
 
-    params.set('max', maxRoots === Infinity ? 'inf' : maxRoots.toString());
-    params.set('t', transparency.toFixed(6));
-    params.set('cbw', colorBandWidth.toFixed(6));
-    params.set('cm', colorMode);
-    params.set('bm', blendModeToIndex(blendMode).toString());
-    params.set('gm', gammaCorrection.toFixed(6));
-    params.set('0x', offsetX.toFixed(6));
-    params.set('0y', offsetY.toFixed(6));
-    params.set('z', zoom.toFixed(6));
-    params.set('hor', polynomialNeighborRange.toString());
-
-    // Grid config
-    params.set('gr', gridConfig.rectangular.enabled ? '1' : '0');
-    params.set('grs', gridConfig.rectangular.step.toString());
-    params.set('gc', gridConfig.circles.enabled ? '1' : '0');
-    params.set('gcs', gridConfig.circles.step.toString());
-    params.set('gry', gridConfig.rays.enabled ? '1' : '0');
-    params.set('grc', gridConfig.rays.count.toString());
-    params.set('gs', gridConfig.snapEnabled ? '1' : '0');
-    params.set('gst', gridConfig.snapThresholdPx.toString());
-
-    // Sampling config (only save if not default)
-    if (samplingConfig.mode !== 'uniform') {
-      params.set('sm', samplingConfig.mode);
-      if (samplingConfig.mode === 'by_a0' || samplingConfig.mode === 'by_an') {
-        params.set('sf', (samplingConfig.filterCoeffIndex + 1).toString()); // 1-based in URL
-      }
-    }
-    if (samplingConfig.offset > 0) {
-      params.set('so', samplingConfig.offset.toFixed(4));
-    }
+  // Named view bookmarks, kept in localStorage
+  const [viewBookmarks, setViewBookmarks] = useState<ViewBookmark[]>(loadViewBookmarks);
 
-    // Coefficient formulas (only save if not default)
-    if (reFormula !== DEFAULT_RE_FORMULA) {
-      params.set('fre', encodeURIComponent(reFormula));
-    }
-    if (imFormula !== DEFAULT_IM_FORMULA) {
-      params.set('fim', encodeURIComponent(imFormula));
+  const updateViewBookmarks = (bookmarks: ViewBookmark[]) => {
+    setViewBookmarks(bookmarks);
+    if (!saveViewBookmarks(bookmarks)) {
+      toast.error('Could not store bookmarks (browser storage is unavailable or full)');
     }
+  };
 
-    // Update URL without reloading page or adding to history
-    const newUrl = `${window.location.pathname}?${params.toString()}`;
-    window.history.replaceState({}, '', newUrl);
-  }, [degree, coefficients, maxRoots, transparency, colorBandWidth, colorMode, blendMode, gammaCorrection, offsetX, offsetY, zoom, polynomialNeighborRange, gridConfig, samplingConfig, reFormula, imFormula]); // Update when any param changes
+  const handleAddViewBookmark = (name: string) => {
+    const canvas = fractalCanvasRef.current?.exportToCanvas();
+    const bookmark: ViewBookmark = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      view: { offsetX, offsetY, zoom },
+      thumbnail: canvas ? createViewThumbnail(canvas) : '',
+      createdAt: Date.now(),
+    };
+    updateViewBookmarks([...viewBookmarks, bookmark]);
+    toast.success(`Bookmarked "${name}"`, { duration: 2000 });
+  };
+
+  const handleDeleteViewBookmark = (id: string) => {
+    updateViewBookmarks(viewBookmarks.filter((bookmark) => bookmark.id !== id));
+  };
 
   // Track landscape/portrait mode
   useEffect(() => {
@@ -598,20 +672,44 @@ const Index = () => {
   }, []);
 
   return (
-    <div className="relative w-full h-screen overflow-hidden bg-background">
+    <div
+      className="relative w-full h-screen overflow-hidden bg-background"
+      onDragOver={(e) => {
+        // Accept dropped files (scene PNGs and JSON)
+        if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+      }}
+      onDrop={handleSceneDrop}
+    >
+      <input
+        ref={sceneFileInputRef}
+        type="file"
+        accept=".json,.png,application/json,image/png"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) restoreSceneFromFile(file);
+          e.target.value = '';
+        }}
+      />
       {/* Fullscreen Canvas */}
       <FractalCanvas
         ref={fractalCanvasRef}
         degree={degree}
         coefficients={coefficients}
+        positionSets={positionSets}
         onCoefficientsChange={setCoefficients}
+        onCoefficientDragStart={() => recordHistory()}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onViewBack={handleViewBack}
+        onViewForward={handleViewForward}
         onCoefficientSelect={setLastSelectedIndex}
         maxRoots={maxRoots}
         maxIterations={maxIterations}
-        transparency={transparency}
         colorBandWidth={colorBandWidth}
         colorMode={colorMode}
-        blendMode={blendMode}
+        toneMapping={toneMapping}
+        exposure={exposure}
         gammaCorrection={gammaCorrection}
         autoClearCanvas={autoClearCanvas}
         autoRestart={autoRestart}
@@ -621,6 +719,13 @@ const Index = () => {
         polynomialNeighborRange={polynomialNeighborRange}
         gridConfig={gridConfig}
         samplingConfig={samplingConfig}
+        rootSolver={rootSolver}
+        familyTransform={familyTransform}
+        renderMode={renderMode}
+        matrixStructure={matrixStructure}
+        dragonPoint={dragonPoint}
+        onDragonPointChange={setDragonPoint}
+        modLayers={modLayers}
         onOffsetChange={(x, y) => { setOffsetX(x); setOffsetY(y); }}
         onZoomChange={setZoom}
         onResetView={handleResetView}
@@ -630,22 +735,31 @@ const Index = () => {
       <aside className="absolute top-4 left-4 w-[350px] max-h-[calc(100vh-2rem)] overflow-y-auto overflow-x-hidden p-6">
         <ControlPanel
           degree={degree}
-          onDegreeChange={setDegree}
+          onDegreeChange={handleDegreeChange}
           coefficientCount={coefficients.length}
           onCoefficientCountChange={handleCoefficientCountChange}
+          coefficients={coefficients}
+          positionSets={positionSets}
+          positionSetOverrides={positionSetOverrides}
+          onPositionSetOverridesChange={setPositionSetOverrides}
           maxRoots={maxRoots}
           onMaxRootsChange={setMaxRoots}
           polynomialNeighborRange={polynomialNeighborRange}
           onPolynomialNeighborRangeChange={setPolynomialNeighborRange}
           isLandscape={isLandscape}
-          transparency={transparency}
-          onTransparencyChange={setTransparency}
           colorBandWidth={colorBandWidth}
           onColorBandWidthChange={setColorBandWidth}
           colorMode={colorMode}
           onColorModeChange={setColorMode}
-          blendMode={blendMode}
-          onBlendModeChange={setBlendMode}
+          renderMode={renderMode}
+          onRenderModeChange={setRenderMode}
+          matrixStructure={matrixStructure}
+          onMatrixStructureChange={setMatrixStructure}
+          dragonPoint={dragonPoint}
+          toneMapping={toneMapping}
+          onToneMappingChange={setToneMapping}
+          exposure={exposure}
+          onExposureChange={setExposure}
           gammaCorrection={gammaCorrection}
           onGammaCorrectionChange={setGammaCorrection}
           autoClearCanvas={autoClearCanvas}
@@ -658,6 +772,10 @@ const Index = () => {
           onGridConfigChange={setGridConfig}
           samplingConfig={samplingConfig}
           onSamplingConfigChange={setSamplingConfig}
+          rootSolver={rootSolver}
+          onRootSolverChange={setRootSolver}
+          familyTransform={familyTransform}
+          onFamilyTransformChange={setFamilyTransform}
           zoom={zoom}
           reFormula={reFormula}
           imFormula={imFormula}
@@ -675,8 +793,32 @@ const Index = () => {
           onRandomizeCoefficients={handleRandomizeCoefficients}
           onExportPNG={handleExportPNG}
           onExportLink={handleExportLink}
+          onExportRoots={handleExportRoots}
+          onOpenHighResExport={() => setHighResDialogOpen(true)}
+          onSaveScene={handleSaveScene}
+          onOpenScene={() => sceneFileInputRef.current?.click()}
+          viewBookmarks={viewBookmarks}
+          onAddViewBookmark={handleAddViewBookmark}
+          onFlyToViewBookmark={(bookmark) => fractalCanvasRef.current?.flyTo(bookmark.view)}
+          onDeleteViewBookmark={handleDeleteViewBookmark}
+          canGoBackView={viewHistory.depth > 0}
+          canGoForwardView={viewHistory.depth < viewHistory.length}
+          onViewBack={handleViewBack}
+          onViewForward={handleViewForward}
+          modLayers={modLayers}
+          onModLayersChange={setModLayers}
+          onExportModLayers={handleExportModLayers}
         />
       </aside>
+
+      <ExportDialog
+        open={highResDialogOpen}
+        onOpenChange={setHighResDialogOpen}
+        progress={highResProgress}
+        unavailableReason={renderMode === 'newton_basin' ? 'Not available for Newton basins' : null}
+        onExport={handleExportHighRes}
+        onCancel={() => highResExportRef.current?.abort()}
+      />
     </div>
   );
 };
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { ArrowLeft, Trash2 } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  ROOT_CACHE_BUDGET_OPTIONS,
+  RootCacheEntry,
+  RootCacheSettings,
+  clearRootCache,
+  deleteRootCacheEntry,
+  evictRootCache,
+  formatBytes,
+  listRootCacheEntries,
+  loadRootCacheSettings,
+  saveRootCacheSettings,
+} from "@/lib/rootCache";
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [settings, setSettings] = useState<RootCacheSettings>(loadRootCacheSettings);
+  // null while loading or when IndexedDB is unavailable
+  const [entries, setEntries] = useState<RootCacheEntry[] | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+
+  const refresh = useCallback(() => {
+    listRootCacheEntries()
+      .then(setEntries)
+      .catch((error) => {
+        console.warn('[Root Cache] Unavailable:', error);
+        setEntries(null);
+      });
+    navigator.storage?.estimate().then(setStorageEstimate).catch(() => setStorageEstimate(null));
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const updateSettings = (next: RootCacheSettings) => {
+    setSettings(next);
+    if (!saveRootCacheSettings(next)) {
+      toast.error('Could not save settings: browser storage is unavailable');
+      return;
+    }
+    if (next.budgetBytes < settings.budgetBytes) {
+      evictRootCache(next.budgetBytes).then(refresh).catch(() => {});
+    }
+  };
+
+  const handleDelete = (hash: string) => {
+    deleteRootCacheEntry(hash)
+      .then(refresh)
+      .catch(() => toast.error('Could not delete cached roots'));
+  };
+
+  const handleClear = () => {
+    clearRootCache()
+      .then(() => {
+        toast.success('Root cache cleared');
+        refresh();
+      })
+      .catch(() => toast.error('Could not clear the root cache'));
+  };
+
+  // Back to the scene the page was opened from (its URL holds the parameters)
+  const handleBack = () => {
+    if (location.key !== 'default') navigate(-1);
+    else navigate('/');
+  };
+
+  const usedBytes = entries?.reduce((sum, entry) => sum + entry.bytes, 0) ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="mx-auto max-w-2xl p-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button size="icon" variant="outline" className="h-10 w-10" onClick={handleBack} title="Back">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <h1 className="text-xl font-semibold">Settings</h1>
+        </div>
+
+        <section className="space-y-4 rounded-lg border border-border p-4">
+          <div>
+            <h2 className="text-base font-medium">Root cache</h2>
+            <p className="text-xs text-muted-foreground">
+              Computed roots are kept in this browser, so reopening a scene draws them at once and
+              only computes what is missing. The least recently used scenes are removed when the
+              cache is full.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="root-cache-enabled" className="text-sm font-normal">Keep computed roots between sessions</Label>
+            <Switch
+              id="root-cache-enabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => updateSettings({ ...settings, enabled })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-sm font-normal">Cache size limit</Label>
+            <Select
+              value={settings.budgetBytes.toString()}
+              onValueChange={(value) => updateSettings({ ...settings, budgetBytes: Number(value) })}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROOT_CACHE_BUDGET_OPTIONS.map((bytes) => (
+                  <SelectItem key={bytes} value={bytes.toString()}>{formatBytes(bytes)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{formatBytes(usedBytes)} of {formatBytes(settings.budgetBytes)} used</span>
+              {storageEstimate?.usage !== undefined && storageEstimate.quota !== undefined && (
+                <span>Site storage: {formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)}</span>
+              )}
+            </div>
+            <Progress value={Math.min((usedBytes / settings.budgetBytes) * 100, 100)} className="h-2" />
+          </div>
+
+          {entries === null ? (
+            <p className="text-xs text-muted-foreground">The root cache is not available in this browser.</p>
+          ) : entries.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No cached roots yet.</p>
+          ) : (
+            <ul className="max-h-[50vh] overflow-y-auto divide-y divide-border">
+              {entries.map((entry) => (
+                <li key={entry.hash} className="flex items-center gap-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm truncate">{entry.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatBytes(entry.bytes)} · {Math.round((entry.storedBatches / entry.batchCount) * 100)}% computed · last used {new Date(entry.lastUsed).toLocaleString()}
+                    </p>
+                  </div>
+                  <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0" onClick={() => handleDelete(entry.hash)} title="Delete cached roots">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Button variant="outline" size="sm" onClick={handleClear} disabled={!entries?.length}>
+            Clear root cache
+          </Button>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;